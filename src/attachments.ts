@@ -0,0 +1,70 @@
+/*
+ * VAULT ATTACHMENTS
+ * Turns vault images and PDFs into content parts (base64 data URLs)
+ */
+
+import { DataAdapter, TFile, arrayBufferToBase64 } from "obsidian";
+import { AttachmentError } from "./errors";
+
+// ==================== TYPES ====================
+export interface TextPart {
+    type: "text";
+    text: string;
+}
+
+export interface ImagePart {
+    type: "image_url";
+    image_url: { url: string; detail?: "auto" | "low" | "high" };
+}
+
+export interface FilePart {
+    type: "file";
+    file: { filename: string; file_data: string };
+}
+
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+const MIME_TYPES: { [ext: string]: string } = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    webp: "image/webp",
+    pdf: "application/pdf"
+};
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+
+// ==================== HELPERS ====================
+
+/**
+ * Reads a png/jpg/webp/pdf through the vault adapter and encodes it as a content part.
+ * Pass the model's input modalities (if known) to reject images for text-only models.
+ */
+export async function fileToContentPart(adapter: DataAdapter, file: TFile, inputModalities?: string[]): Promise<ContentPart> {
+    const ext = file.extension.toLowerCase();
+    const mime = MIME_TYPES[ext];
+    if (!mime) {
+        throw new AttachmentError(file.path, "unsupported-type", `Unsupported attachment type: .${ext}`);
+    }
+
+    const isPdf = ext === "pdf";
+    const limit = isPdf ? MAX_PDF_BYTES : MAX_IMAGE_BYTES;
+    if (file.stat.size > limit) {
+        throw new AttachmentError(file.path, "too-large",
+            `${file.name} is ${(file.stat.size / 1048576).toFixed(1)} MB (limit ${limit / 1048576} MB)`);
+    }
+
+    // PDFs are parsed server-side for any model, images need native vision support
+    if (!isPdf && inputModalities && !inputModalities.includes("image")) {
+        throw new AttachmentError(file.path, "unsupported-modality", "The selected model does not accept image input");
+    }
+
+    const data = await adapter.readBinary(file.path);
+    const dataUrl = `data:${mime};base64,${arrayBufferToBase64(data)}`;
+
+    if (isPdf) {
+        return { type: "file", file: { filename: file.name, file_data: dataUrl } };
+    }
+    return { type: "image_url", image_url: { url: dataUrl } };
+}
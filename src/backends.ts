@@ -0,0 +1,83 @@
+/*
+ * BACKENDS
+ * Additional OpenAI-compatible endpoints (Ollama, LM Studio, gateways).
+ * Models are addressed as "<prefix>/<model>" and routed by that prefix.
+ */
+
+import { ModelInfo } from "./main";
+
+// ==================== TYPES ====================
+export interface BackendCapabilities {
+    /** Serves GET /models */
+    models: boolean;
+    /** Serves OpenRouter-style GET /credits and /auth/key */
+    credits: boolean;
+    /** Accepts OpenRouter's `usage: { include: true }` request field */
+    usageAccounting: boolean;
+}
+
+export interface BackendConfig {
+    id: string;
+    name: string;
+    /** e.g. http://localhost:11434/v1 */
+    baseUrl: string;
+    apiKey?: string;
+    /** Model ids starting with "<prefix>/" are sent here, without the prefix */
+    prefix: string;
+    enabled: boolean;
+    capabilities: BackendCapabilities;
+}
+
+export const BACKEND_PRESETS: { [name: string]: Omit<BackendConfig, "id"> } = {
+    "Ollama": {
+        name: "Ollama",
+        baseUrl: "http://localhost:11434/v1",
+        prefix: "ollama",
+        enabled: true,
+        capabilities: { models: true, credits: false, usageAccounting: false }
+    },
+    "LM Studio": {
+        name: "LM Studio",
+        baseUrl: "http://localhost:1234/v1",
+        prefix: "lmstudio",
+        enabled: true,
+        capabilities: { models: true, credits: false, usageAccounting: false }
+    },
+    "Custom": {
+        name: "Custom Gateway",
+        baseUrl: "",
+        prefix: "custom",
+        enabled: true,
+        capabilities: { models: true, credits: false, usageAccounting: false }
+    }
+};
+
+// ==================== HELPERS ====================
+
+/** Backend whose prefix matches the model id, if any */
+export function findBackend(backends: BackendConfig[], modelId: string): BackendConfig | undefined {
+    return backends.find(b => b.enabled && b.prefix && modelId.startsWith(`${b.prefix}/`));
+}
+
+export function stripPrefix(backend: BackendConfig, modelId: string): string {
+    return modelId.slice(backend.prefix.length + 1);
+}
+
+export function trimBaseUrl(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+/** Maps a backend's /models entry into the catalog format, prefixing the id */
+export function toCatalogModel(backend: BackendConfig, raw: any): ModelInfo {
+    const id = `${backend.prefix}/${raw.id}`;
+    return {
+        id,
+        name: raw.name || `${backend.name}: ${raw.id}`,
+        description: raw.description,
+        context_length: raw.context_length || raw.context_window || 0,
+        pricing: { prompt: "0", completion: "0" },
+        architecture: raw.architecture,
+        supported_parameters: raw.supported_parameters,
+        backend: backend.id
+    };
+}
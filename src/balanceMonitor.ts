@@ -0,0 +1,127 @@
+/*
+ * BALANCE MONITOR
+ * Polls the default key's credits in the background, shows the balance in
+ * the status bar and warns once when it drops below the threshold
+ */
+
+import { Notice, debounce, setIcon } from "obsidian";
+import { CreditsInfo, OpenRouterSettings } from "./main";
+import { ProviderEvents } from "./events";
+
+export class BalanceMonitor {
+    private item: HTMLElement;
+    private getSettings: () => OpenRouterSettings;
+    private fetchCredits: () => Promise<CreditsInfo | null>;
+    /** Id of the default key profile, the one being monitored */
+    private getProfileId: () => string | undefined;
+    private interval: number | null = null;
+    private last: CreditsInfo | null = null;
+    /** Set once the low-balance notice was shown, cleared when the balance recovers */
+    private warned = false;
+
+    constructor(
+        item: HTMLElement,
+        events: ProviderEvents,
+        getSettings: () => OpenRouterSettings,
+        fetchCredits: () => Promise<CreditsInfo | null>,
+        getProfileId: () => string | undefined
+    ) {
+        this.item = item;
+        this.getSettings = getSettings;
+        this.fetchCredits = fetchCredits;
+        this.getProfileId = getProfileId;
+        this.item.addClass('mod-clickable');
+        this.item.addEventListener('click', () => this.poll());
+        this.render();
+
+        // Any fetch for the default key (settings tab, consumers) updates the readout
+        events.on('credits-changed', (e) => {
+            if (e.profileId === this.getProfileId()) this.update(e.credits);
+        });
+        // Key edits in settings fire per keystroke
+        const pollSoon = debounce(() => this.poll(), 1000, true);
+        events.on('key-changed', (e) => {
+            if (this.interval !== null && !e.pluginId && e.profileId === this.getProfileId()) pollSoon();
+        });
+    }
+
+    /** Polls now and then every `balancePollMinutes`; does nothing when that is 0 (off) */
+    start(): void {
+        if (this.schedule()) this.poll();
+    }
+
+    /** Applies a changed interval without polling right away; false when polling is off */
+    schedule(): boolean {
+        this.stop();
+        const minutes = this.getSettings().balancePollMinutes;
+        if (minutes <= 0) return false;
+        this.interval = window.setInterval(() => this.poll(), minutes * 60 * 1000);
+        return true;
+    }
+
+    stop(): void {
+        if (this.interval !== null) window.clearInterval(this.interval);
+        this.interval = null;
+    }
+
+    async poll(): Promise<void> {
+        // Results arrive through the credits-changed event
+        await this.fetchCredits();
+    }
+
+    /** Latest credits of the default key, null before the first successful poll */
+    getLast(): CreditsInfo | null {
+        return this.last;
+    }
+
+    /** Re-applies settings changes (readout toggle, threshold) */
+    refresh(): void {
+        this.render();
+        this.checkThreshold();
+    }
+
+    private update(credits: CreditsInfo): void {
+        this.last = credits;
+        this.render();
+        this.checkThreshold();
+    }
+
+    private checkThreshold(): void {
+        const threshold = this.getSettings().lowBalanceThreshold;
+        if (!this.last || threshold <= 0) return;
+
+        if (this.last.available >= threshold) {
+            this.warned = false;
+            return;
+        }
+        if (this.warned) return;
+        this.warned = true;
+        new Notice(`⚠️ OpenRouter balance low: $${this.last.available.toFixed(2)} left (alert below $${threshold.toFixed(2)})`, 10000);
+    }
+
+    private render(): void {
+        this.item.empty();
+        if (!this.getSettings().showBalanceInStatusBar || !this.last) {
+            this.item.style.display = 'none';
+            return;
+        }
+
+        const credits = this.last;
+        const threshold = this.getSettings().lowBalanceThreshold;
+        this.item.style.display = 'inline-flex';
+        this.item.toggleClass('or-balance-low', threshold > 0 && credits.available < threshold);
+        const icon = this.item.createSpan({ cls: 'status-bar-item-icon' });
+        setIcon(icon, 'wallet');
+        this.item.createSpan({ text: ` $${credits.available.toFixed(2)}` });
+
+        const lines = [
+            `Account: $${credits.balance.toFixed(2)} of $${credits.totalCredits.toFixed(2)}`,
+            credits.keyLimit !== null && credits.keyRemaining !== null
+                ? `Key limit: $${credits.keyRemaining.toFixed(2)} of $${credits.keyLimit.toFixed(2)} left`
+                : 'Key limit: none',
+            credits.isFreeTier ? 'Free tier key' : '',
+            `Updated ${new Date(credits.fetchedAt).toLocaleTimeString()}, click to refresh`
+        ];
+        this.item.title = lines.filter(l => l).join('\n');
+    }
+}
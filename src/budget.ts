@@ -0,0 +1,81 @@
+/*
+ * BUDGET GUARD
+ * Enforces daily / monthly cost and request caps per plugin and globally,
+ * based on the usage ledger
+ */
+
+import { Notice } from "obsidian";
+import { BudgetExceededError, BudgetMetric, BudgetPeriod } from "./errors";
+import { UsageLedger, dayKey, monthKey } from "./usageLedger";
+
+// ==================== TYPES ====================
+export interface BudgetLimits {
+    dailyCost?: number | null;
+    monthlyCost?: number | null;
+    dailyRequests?: number | null;
+    monthlyRequests?: number | null;
+}
+
+export interface BudgetSettings {
+    globalBudget: BudgetLimits;
+    pluginBudgets: { [pluginId: string]: BudgetLimits };
+    /** Fraction of a cap (0-1) at which a warning notice is shown */
+    budgetWarningThreshold: number;
+}
+
+const CHECKS: { period: BudgetPeriod; metric: BudgetMetric; key: keyof BudgetLimits }[] = [
+    { period: "day", metric: "cost", key: "dailyCost" },
+    { period: "month", metric: "cost", key: "monthlyCost" },
+    { period: "day", metric: "requests", key: "dailyRequests" },
+    { period: "month", metric: "requests", key: "monthlyRequests" }
+];
+
+// ==================== GUARD ====================
+
+export class BudgetGuard {
+    private ledger: UsageLedger;
+    private getSettings: () => BudgetSettings;
+    /** Warnings already shown, keyed by scope + cap + period key, so each fires once */
+    private warned = new Set<string>();
+
+    constructor(ledger: UsageLedger, getSettings: () => BudgetSettings) {
+        this.ledger = ledger;
+        this.getSettings = getSettings;
+    }
+
+    /** Throws BudgetExceededError if the next request for pluginId would exceed a cap */
+    check(pluginId: string | undefined): void {
+        const settings = this.getSettings();
+        this.checkScope(null, settings.globalBudget, settings.budgetWarningThreshold);
+        if (pluginId && settings.pluginBudgets[pluginId]) {
+            this.checkScope(pluginId, settings.pluginBudgets[pluginId], settings.budgetWarningThreshold);
+        }
+    }
+
+    private checkScope(pluginId: string | null, limits: BudgetLimits, threshold: number): void {
+        if (!limits) return;
+        const now = Date.now();
+
+        for (const { period, metric, key } of CHECKS) {
+            const limit = limits[key];
+            if (limit === null || limit === undefined || limit <= 0) continue;
+
+            const periodKey = period === "day" ? dayKey(now) : monthKey(now);
+            const totals = this.ledger.getTotals(period, pluginId || undefined);
+            const spent = metric === "cost" ? totals.cost : totals.requests;
+
+            // Request caps count the request about to be sent
+            if (metric === "requests" ? spent + 1 > limit : spent >= limit) {
+                throw new BudgetExceededError(pluginId, period, metric, limit, spent);
+            }
+
+            const warnKey = `${pluginId || "*"}|${key}|${periodKey}`;
+            if (threshold > 0 && spent >= limit * threshold && !this.warned.has(warnKey)) {
+                this.warned.add(warnKey);
+                const scope = pluginId || "all plugins";
+                const amount = metric === "cost" ? `$${spent.toFixed(2)} of $${limit.toFixed(2)}` : `${spent} of ${limit} requests`;
+                new Notice(`⚠️ OpenRouter: ${scope} has used ${amount} (${period === "day" ? "today" : "this month"})`);
+            }
+        }
+    }
+}
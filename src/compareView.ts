@@ -0,0 +1,325 @@
+/*
+ * MODEL COMPARISON VIEW
+ * Sends one prompt to several favorite models in parallel and shows the
+ * outputs side by side with latency, speed, token counts and cost
+ */
+
+import { ItemView, Notice, TFile, WorkspaceLeaf, normalizePath, setIcon } from "obsidian";
+import OpenRouterProvider, { StreamHandle, StreamOutcome } from "./main";
+import { estimateTextTokens } from "./contextWindow";
+
+export const VIEW_TYPE_COMPARE = "openrouter-compare";
+
+/** Consumer id the comparison requests are recorded under */
+export const COMPARE_CONSUMER_ID = "model-compare";
+
+/** Favorites preselected when the view opens */
+const DEFAULT_SELECTED = 3;
+
+interface CompareRun {
+    model: string;
+    handle: StreamHandle | null;
+    text: string;
+    startTime: number;
+    /** 0 until the first token arrives */
+    firstTokenTime: number;
+    endTime: number;
+    /** Streamed chunks, the token estimate until usage arrives */
+    chunks: number;
+    outcome: StreamOutcome | null;
+    /** Set when the columns are rendered */
+    outputEl: HTMLElement | null;
+    metricsEl: HTMLElement | null;
+}
+
+interface CompareMetrics {
+    /** Milliseconds to the first token */
+    latency: number | null;
+    tokensPerSecond: number | null;
+    promptTokens: number;
+    completionTokens: number;
+    /** False when the counts are estimated because the provider sent no usage */
+    exact: boolean;
+    cost: number;
+}
+
+export class ModelCompareView extends ItemView {
+    plugin: OpenRouterProvider;
+    prompt = "";
+    selected = new Set<string>();
+    runs: CompareRun[] = [];
+    /** Prompt of the current runs; the text area may have changed since */
+    runPrompt = "";
+    promptEl!: HTMLTextAreaElement;
+    columnsEl!: HTMLElement;
+    private tickInterval: number | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: OpenRouterProvider) {
+        super(leaf);
+        this.plugin = plugin;
+        plugin.getFavorites().slice(0, DEFAULT_SELECTED).forEach(m => this.selected.add(m));
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_COMPARE;
+    }
+
+    getDisplayText(): string {
+        return "Model Comparison";
+    }
+
+    getIcon(): string {
+        return "columns";
+    }
+
+    async onOpen(): Promise<void> {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('or-compare');
+
+        this.promptEl = contentEl.createEl('textarea', {
+            cls: 'or-compare-prompt',
+            attr: { placeholder: 'Prompt to send to every selected model...', rows: '4' }
+        });
+        this.promptEl.value = this.prompt;
+        this.promptEl.oninput = () => this.prompt = this.promptEl.value;
+
+        const models = contentEl.createDiv({ cls: 'or-compare-models' });
+        const favorites = this.plugin.getFavorites();
+        if (favorites.length === 0) {
+            models.createSpan({ text: 'No favorite models. Add some in the model selector.', cls: 'or-text-muted' });
+        }
+        favorites.forEach(id => {
+            const label = models.createEl('label', { cls: 'or-compare-model' });
+            const checkbox = label.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selected.has(id);
+            checkbox.onchange = () => {
+                if (checkbox.checked) this.selected.add(id);
+                else this.selected.delete(id);
+            };
+            label.appendText(id);
+        });
+
+        const toolbar = contentEl.createDiv({ cls: 'or-compare-toolbar' });
+        const runBtn = toolbar.createEl('button', { text: 'Run', cls: 'mod-cta' });
+        runBtn.onclick = () => this.run();
+        const stopBtn = toolbar.createEl('button', { text: 'Stop' });
+        stopBtn.onclick = () => this.stop();
+        const saveBtn = toolbar.createEl('button', { text: 'Save as note' });
+        saveBtn.onclick = () => this.saveAsNote();
+
+        this.columnsEl = contentEl.createDiv({ cls: 'or-compare-columns' });
+        this.renderColumns();
+    }
+
+    async onClose(): Promise<void> {
+        this.stop();
+        this.stopTicker();
+    }
+
+    /** Replaces the prompt, e.g. with the editor selection */
+    setPrompt(prompt: string): void {
+        this.prompt = prompt;
+        if (this.promptEl) this.promptEl.value = prompt;
+    }
+
+    // ==================== RUNNING ====================
+
+    run(): void {
+        const prompt = this.prompt.trim();
+        if (!prompt) {
+            new Notice('Enter a prompt first');
+            return;
+        }
+        // Keep favorites order
+        const models = this.plugin.getFavorites().filter(m => this.selected.has(m));
+        if (models.length === 0) {
+            new Notice('Select at least one model');
+            return;
+        }
+
+        this.stop();
+        this.runPrompt = prompt;
+        this.runs = models.map(model => ({
+            model,
+            handle: null,
+            text: '',
+            startTime: Date.now(),
+            firstTokenTime: 0,
+            endTime: 0,
+            chunks: 0,
+            outcome: null,
+            outputEl: null,
+            metricsEl: null
+        }));
+        this.renderColumns();
+
+        this.runs.forEach(run => {
+            run.handle = this.plugin.streamRequest(
+                { model: run.model, messages: [{ role: 'user', content: prompt }] },
+                (token) => {
+                    if (run.firstTokenTime === 0) run.firstTokenTime = Date.now();
+                    run.chunks++;
+                    run.text += token;
+                    if (run.outputEl) run.outputEl.appendText(token);
+                },
+                () => { },
+                () => { },
+                undefined,
+                // Each column must show the output of exactly its model
+                { pluginId: COMPARE_CONSUMER_ID, exactModel: true }
+            );
+            run.handle.done.then(outcome => {
+                run.endTime = Date.now();
+                run.outcome = outcome;
+                if (outcome.status === 'error' && run.outputEl) {
+                    run.outputEl.createDiv({ text: outcome.error?.message || String(outcome.error), cls: 'or-compare-error' });
+                }
+                this.renderMetrics(run);
+                if (this.runs.every(r => r.outcome)) this.stopTicker();
+            });
+        });
+        this.startTicker();
+    }
+
+    stop(): void {
+        this.runs.forEach(run => {
+            if (!run.outcome && run.handle) run.handle.cancel();
+        });
+    }
+
+    private metrics(run: CompareRun): CompareMetrics {
+        const usage = run.outcome?.result?.usage;
+        const end = run.endTime || Date.now();
+        const promptTokens = usage?.prompt_tokens ?? estimateTextTokens(this.runPrompt);
+        const completionTokens = usage?.completion_tokens ?? run.chunks;
+        const generating = run.firstTokenTime ? (end - run.firstTokenTime) / 1000 : 0;
+        const reported = run.outcome?.result?.cost;
+
+        return {
+            latency: run.firstTokenTime ? run.firstTokenTime - run.startTime : null,
+            tokensPerSecond: generating > 0 ? completionTokens / generating : null,
+            promptTokens,
+            completionTokens,
+            exact: !!usage,
+            cost: typeof reported === 'number'
+                ? reported
+                : this.plugin.usage.calculateCost(run.outcome?.model || run.model, promptTokens, completionTokens)
+        };
+    }
+
+    // ==================== RENDERING ====================
+
+    private renderColumns(): void {
+        if (!this.columnsEl) return;
+        this.columnsEl.empty();
+        if (this.runs.length === 0) {
+            this.columnsEl.createDiv({ text: 'Select models and run a prompt to compare them', cls: 'or-text-muted or-text-center' });
+            return;
+        }
+
+        this.runs.forEach(run => {
+            const column = this.columnsEl.createDiv({ cls: 'or-compare-column' });
+            const header = column.createDiv({ cls: 'or-compare-column-header' });
+            header.createDiv({ text: run.model, cls: 'or-inspector-model' });
+            run.metricsEl = header.createDiv({ cls: 'or-text-muted' });
+
+            const use = header.createDiv({ cls: 'or-compare-use' });
+            const select = use.createEl('select', { cls: 'dropdown' });
+            select.createEl('option', { text: 'Use for plugin...', value: '' });
+            this.plugin.getConsumers()
+                .filter(c => c.record.id !== COMPARE_CONSUMER_ID)
+                .forEach(c => select.createEl('option', { text: c.record.name, value: c.record.id }));
+            const useBtn = use.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Use this model' } });
+            setIcon(useBtn, 'check');
+            useBtn.onclick = async () => {
+                if (!select.value) return;
+                const name = select.options[select.selectedIndex].text;
+                await this.plugin.setModel(select.value, run.model);
+                new Notice(`${name} now uses ${run.model}`);
+            };
+
+            run.outputEl = column.createDiv({ cls: 'or-compare-output' });
+            if (run.text) run.outputEl.setText(run.text);
+            this.renderMetrics(run);
+        });
+    }
+
+    private renderMetrics(run: CompareRun): void {
+        if (!run.metricsEl) return;
+        const m = this.metrics(run);
+        const status = run.outcome ? (run.outcome.status === 'completed' ? '' : ` · ${run.outcome.status}`) : ' · running';
+        run.metricsEl.setText(formatMetrics(m) + status);
+    }
+
+    /** Refreshes speed and elapsed time while streams are running */
+    private startTicker(): void {
+        this.stopTicker();
+        this.tickInterval = window.setInterval(() => this.runs.forEach(r => {
+            if (!r.outcome) this.renderMetrics(r);
+        }), 1000);
+        this.registerInterval(this.tickInterval);
+    }
+
+    private stopTicker(): void {
+        if (this.tickInterval !== null) window.clearInterval(this.tickInterval);
+        this.tickInterval = null;
+    }
+
+    // ==================== EXPORT ====================
+
+    async saveAsNote(): Promise<void> {
+        if (this.runs.length === 0) {
+            new Notice('Nothing to save yet');
+            return;
+        }
+
+        const date = new Date();
+        const lines = [
+            `# Model comparison`,
+            '',
+            `${date.toLocaleString()}`,
+            '',
+            '## Prompt',
+            '',
+            ...this.runPrompt.split('\n').map(l => `> ${l}`),
+            '',
+            '| Model | Latency | Tokens/s | Prompt tokens | Completion tokens | Cost |',
+            '| --- | --- | --- | --- | --- | --- |',
+            ...this.runs.map(run => {
+                const m = this.metrics(run);
+                const approx = m.exact ? '' : '~';
+                return `| ${run.model} | ${m.latency !== null ? `${m.latency} ms` : '-'} | ${m.tokensPerSecond !== null ? m.tokensPerSecond.toFixed(1) : '-'} | ${approx}${m.promptTokens} | ${approx}${m.completionTokens} | $${m.cost.toFixed(5)} |`;
+            }),
+            ''
+        ];
+        this.runs.forEach(run => {
+            lines.push(`## ${run.model}`, '', run.text || `*${run.outcome?.status === 'error' ? 'Error' : 'No output'}*`, '');
+        });
+
+        const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+        let path = normalizePath(`Model comparison ${stamp}.md`);
+        for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+            path = normalizePath(`Model comparison ${stamp} ${i}.md`);
+        }
+
+        const file: TFile = await this.app.vault.create(path, lines.join('\n'));
+        await this.app.workspace.getLeaf('tab').openFile(file);
+        new Notice(`Saved ${file.basename}`);
+    }
+}
+
+function formatMetrics(m: CompareMetrics): string {
+    const approx = m.exact ? '' : '~';
+    const parts = [
+        m.latency !== null ? `${(m.latency / 1000).toFixed(1)}s to first token` : 'waiting',
+        m.tokensPerSecond !== null ? `${Math.round(m.tokensPerSecond)} t/s` : '',
+        `${approx}${m.promptTokens} + ${approx}${m.completionTokens} tokens`,
+        m.cost > 0 ? `$${m.cost.toFixed(5)}` : ''
+    ];
+    return parts.filter(p => p).join(' · ');
+}
+
+function pad(n: number): string {
+    return ('0' + n).slice(-2);
+}
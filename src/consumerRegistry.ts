@@ -0,0 +1,97 @@
+/*
+ * CONSUMER REGISTRY
+ * Plugins register themselves here so they show up in settings.
+ * Consumers that used the provider before are remembered while unloaded.
+ */
+
+// ==================== TYPES ====================
+export interface ConsumerInfo {
+    id: string;
+    name: string;
+    description?: string;
+    /** Model to use until the user picks one */
+    defaultModel?: string;
+    /** e.g. ["image", "tools"], checked against the selected model */
+    requiredCapabilities?: string[];
+}
+
+export interface ConsumerRecord extends ConsumerInfo {
+    lastSeen: number;
+}
+
+export interface ConsumerEntry {
+    record: ConsumerRecord;
+    active: boolean;
+}
+
+// ==================== REGISTRY ====================
+
+export class ConsumerRegistry {
+    private active = new Map<string, ConsumerInfo>();
+    private getRecords: () => { [id: string]: ConsumerRecord };
+    private save: () => Promise<void>;
+
+    constructor(getRecords: () => { [id: string]: ConsumerRecord }, save: () => Promise<void>) {
+        this.getRecords = getRecords;
+        this.save = save;
+    }
+
+    /** Registers one or more consumers; settings are saved only when a stored record changed */
+    register(infos: ConsumerInfo | ConsumerInfo[]): Promise<void> {
+        const list = Array.isArray(infos) ? infos : [infos];
+        const records = this.getRecords();
+        let changed = false;
+        list.forEach(info => {
+            if (!info?.id) throw new Error("registerConsumer requires an id");
+            this.active.set(info.id, info);
+            const record: ConsumerRecord = { ...info, name: info.name || info.id, lastSeen: Date.now() };
+            if (!records[info.id] || !sameInfo(records[info.id], record)) changed = true;
+            // lastSeen alone is not worth a write; it is stored with the next save
+            records[info.id] = record;
+        });
+        return changed ? this.save() : Promise.resolve();
+    }
+
+    unregister(id: string): void {
+        this.active.delete(id);
+    }
+
+    /** Remembers a plugin that sent a request without registering */
+    touch(id: string): void {
+        const records = this.getRecords();
+        if (records[id]) {
+            records[id].lastSeen = Date.now();
+            return;
+        }
+        records[id] = { id, name: id, lastSeen: Date.now() };
+        this.save();
+    }
+
+    async forget(id: string): Promise<void> {
+        delete this.getRecords()[id];
+        await this.save();
+    }
+
+    get(id: string): ConsumerInfo | undefined {
+        return this.active.get(id) || this.getRecords()[id];
+    }
+
+    isActive(id: string): boolean {
+        return this.active.has(id);
+    }
+
+    /** Active consumers first, then previously seen ones by recency */
+    list(): ConsumerEntry[] {
+        const records = this.getRecords();
+        return Object.keys(records)
+            .map(id => ({ record: records[id], active: this.active.has(id) }))
+            .sort((a, b) => Number(b.active) - Number(a.active) || b.record.lastSeen - a.record.lastSeen);
+    }
+}
+
+function sameInfo(a: ConsumerInfo, b: ConsumerInfo): boolean {
+    return a.name === b.name
+        && a.description === b.description
+        && a.defaultModel === b.defaultModel
+        && JSON.stringify(a.requiredCapabilities || []) === JSON.stringify(b.requiredCapabilities || []);
+}
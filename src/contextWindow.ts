@@ -0,0 +1,143 @@
+/*
+ * CONTEXT WINDOW
+ * Rough token estimation and the pre-flight check that keeps prompt plus
+ * max_tokens inside the model's context length
+ */
+
+import { ChatMessage, RequestBody } from "./main";
+import { ContextExceededError } from "./errors";
+
+// ==================== TYPES ====================
+/**
+ * What to do when a request does not fit:
+ * - error: throw ContextExceededError
+ * - trim-oldest: drop the oldest non-system messages
+ * - truncate-last: cut the end of the last user message
+ * - middle-out: let OpenRouter compress the middle of the prompt
+ */
+export type ContextStrategy = "error" | "trim-oldest" | "truncate-last" | "middle-out";
+
+/** Average characters per token for English text and code */
+const CHARS_PER_TOKEN = 4;
+/** Role and separator tokens added per message */
+const MESSAGE_OVERHEAD = 4;
+/** Typical cost of one image at auto detail */
+const IMAGE_TOKENS = 1000;
+/** PDFs: extracted text is usually far smaller than the file itself */
+const PDF_BYTES_PER_TOKEN = 12;
+
+// ==================== ESTIMATION ====================
+
+export function estimateTextTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+    let tokens = MESSAGE_OVERHEAD;
+    const content = message.content;
+
+    if (typeof content === "string") {
+        tokens += estimateTextTokens(content);
+    } else if (Array.isArray(content)) {
+        content.forEach(part => {
+            if (part.type === "text") tokens += estimateTextTokens(part.text);
+            else if (part.type === "image_url") tokens += IMAGE_TOKENS;
+            else if (part.type === "file") {
+                // base64 data URL: 4 characters per 3 bytes
+                const bytes = part.file.file_data.length * 3 / 4;
+                tokens += Math.ceil(bytes / PDF_BYTES_PER_TOKEN);
+            }
+        });
+    }
+
+    if (message.tool_calls) tokens += estimateTextTokens(JSON.stringify(message.tool_calls));
+    return tokens;
+}
+
+/** Estimated prompt tokens of a string, message list or full request body (including tool definitions) */
+export function estimateTokens(input: string | ChatMessage[] | RequestBody): number {
+    if (typeof input === "string") return estimateTextTokens(input);
+    if (Array.isArray(input)) return input.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+    let tokens = estimateTokens(input.messages || []);
+    if (input.tools) tokens += estimateTextTokens(JSON.stringify(input.tools));
+    return tokens;
+}
+
+/** Completion tokens reserved by the request */
+export function requestedCompletionTokens(body: RequestBody): number {
+    const value = body.max_tokens ?? body.max_completion_tokens;
+    return typeof value === "number" ? value : 0;
+}
+
+// ==================== PRE-FLIGHT ====================
+
+/**
+ * Returns the body unchanged when it fits, otherwise a copy adjusted by the strategy.
+ * Throws ContextExceededError for "error", or when trimming cannot make it fit.
+ */
+export function fitToContext(body: RequestBody, contextLength: number, strategy: ContextStrategy): RequestBody {
+    const maxTokens = requestedCompletionTokens(body);
+    const budget = contextLength - maxTokens;
+    const promptTokens = estimateTokens(body);
+    if (promptTokens <= budget) return body;
+
+    const exceeded = (tokens: number) => new ContextExceededError(body.model, tokens, maxTokens, contextLength);
+
+    switch (strategy) {
+        case "middle-out": {
+            // Keep transforms the consumer asked for
+            const transforms: string[] = Array.isArray(body.transforms) ? body.transforms : [];
+            return transforms.includes("middle-out") ? body : { ...body, transforms: [...transforms, "middle-out"] };
+        }
+
+        case "trim-oldest": {
+            const messages = [...body.messages];
+            // Keep system prompts and the latest message
+            let tokens = promptTokens;
+            while (tokens > budget) {
+                const index = messages.findIndex((m, i) => m.role !== "system" && i < messages.length - 1);
+                if (index < 0) throw exceeded(tokens);
+                tokens -= estimateMessageTokens(messages[index]);
+                messages.splice(index, 1);
+                // Tool results are meaningless without the call that produced them
+                while (messages[index]?.role === "tool" && index < messages.length - 1) {
+                    tokens -= estimateMessageTokens(messages[index]);
+                    messages.splice(index, 1);
+                }
+            }
+            return { ...body, messages };
+        }
+
+        case "truncate-last": {
+            const messages = [...body.messages];
+            let index = -1;
+            messages.forEach((m, i) => { if (m.role === "user") index = i; });
+            if (index < 0) throw exceeded(promptTokens);
+
+            const overflowChars = (promptTokens - budget) * CHARS_PER_TOKEN;
+            const message = messages[index];
+            if (typeof message.content === "string") {
+                if (message.content.length <= overflowChars) throw exceeded(promptTokens);
+                messages[index] = { ...message, content: message.content.slice(0, message.content.length - overflowChars) };
+            } else if (Array.isArray(message.content)) {
+                // Cut the longest text part; images and files are left alone
+                const parts = [...message.content];
+                let longest = -1;
+                parts.forEach((p, i) => {
+                    if (p.type === "text" && (longest < 0 || p.text.length > (parts[longest] as { text: string }).text.length)) longest = i;
+                });
+                const part = parts[longest];
+                if (!part || part.type !== "text" || part.text.length <= overflowChars) throw exceeded(promptTokens);
+                parts[longest] = { ...part, text: part.text.slice(0, part.text.length - overflowChars) };
+                messages[index] = { ...message, content: parts };
+            } else {
+                throw exceeded(promptTokens);
+            }
+            return { ...body, messages };
+        }
+
+        default:
+            throw exceeded(promptTokens);
+    }
+}
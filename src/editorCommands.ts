@@ -0,0 +1,212 @@
+/*
+ * EDITOR COMMANDS
+ * Built-in commands that stream into the active editor. They only use the
+ * public API, so they double as reference consumers.
+ */
+
+import { App, Editor, Modal, Notice, Setting } from "obsidian";
+import OpenRouterProvider, { ChatMessage } from "./main";
+import { ConsumerInfo } from "./consumerRegistry";
+import { EditorStream, streamIntoEditor } from "./editorStream";
+import { splitFrontmatter } from "./templates";
+
+// ==================== CONSUMERS ====================
+/** Each command has its own model assignment in settings; registered by the provider on load */
+export const EDITOR_CONSUMERS: { [key: string]: ConsumerInfo } = {
+    continue: { id: "continue-writing", name: "Continue Writing", description: "Editor command: continue the note at the cursor" },
+    rewrite: { id: "rewrite-selection", name: "Rewrite Selection", description: "Editor command: rewrite the selection by an instruction" },
+    translate: { id: "translate-selection", name: "Translate Selection", description: "Editor command: translate the selection" },
+    summarize: { id: "summarize-note", name: "Summarize Note", description: "Editor command: summarize the note into a callout" }
+};
+
+/** Characters before the cursor sent as context for "continue writing" */
+const CONTINUE_CONTEXT_CHARS = 8000;
+/** Characters after the cursor sent so the continuation fits in */
+const CONTINUE_FOLLOWING_CHARS = 2000;
+
+const PROMPTS = {
+    continue: "Continue the user's text from where it ends. Match its language, tone and Markdown formatting. Reply with only the continuation, without repeating the given text.",
+    rewrite: "Rewrite the text following the instruction. Keep the language and Markdown formatting unless the instruction says otherwise. Reply with only the rewritten text.",
+    translate: (language: string) => `Translate the text into ${language}. Keep Markdown formatting, links and code unchanged. Reply with only the translation.`,
+    summarize: "Summarize the note in a few concise bullet points, in the note's language. Reply with only the bullet points."
+};
+
+// ==================== COMMANDS ====================
+
+export function registerEditorCommands(plugin: OpenRouterProvider): void {
+    plugin.addCommand({
+        id: 'continue-writing',
+        name: 'Continue writing at cursor',
+        editorCallback: (editor) => {
+            const cursor = editor.getCursor();
+            const offset = editor.posToOffset(cursor);
+            const content = editor.getValue();
+            const before = splitFrontmatter(content.slice(0, offset)).body.slice(-CONTINUE_CONTEXT_CHARS);
+            const after = content.slice(offset, offset + CONTINUE_FOLLOWING_CHARS);
+            if (!before.trim()) {
+                new Notice("Nothing to continue: the note is empty above the cursor");
+                return;
+            }
+
+            const system = after.trim()
+                ? `${PROMPTS.continue}\n\nThe document continues after the insertion point with:\n"""\n${after}\n"""\nMake the continuation lead into it.`
+                : PROMPTS.continue;
+            run(plugin, editor, EDITOR_CONSUMERS.continue.id, [
+                { role: "system", content: system },
+                { role: "user", content: before }
+            ], new EditorStream(editor, cursor));
+        }
+    });
+
+    plugin.addCommand({
+        id: 'rewrite-selection',
+        name: 'Rewrite selection',
+        editorCheckCallback: (checking, editor) => {
+            if (!editor.somethingSelected()) return false;
+            if (checking) return true;
+
+            const output = new EditorStream(editor, editor.getCursor("from"), editor.getCursor("to"));
+            const selection = editor.getSelection();
+            new TextInputModal(plugin.app, 'Rewrite selection', 'Instruction', 'Improve clarity and flow', (instruction) => {
+                run(plugin, editor, EDITOR_CONSUMERS.rewrite.id, [
+                    { role: "system", content: PROMPTS.rewrite },
+                    { role: "user", content: `Instruction: ${instruction}\n\nText:\n${selection}` }
+                ], output);
+            }).open();
+            return true;
+        }
+    });
+
+    plugin.addCommand({
+        id: 'translate-selection',
+        name: 'Translate selection',
+        editorCheckCallback: (checking, editor) => {
+            if (!editor.somethingSelected()) return false;
+            if (checking) return true;
+
+            const output = new EditorStream(editor, editor.getCursor("from"), editor.getCursor("to"));
+            const selection = editor.getSelection();
+            new TextInputModal(plugin.app, 'Translate selection', 'Target language', plugin.settings.translateLanguage, async (language) => {
+                if (language !== plugin.settings.translateLanguage) {
+                    plugin.settings.translateLanguage = language;
+                    await plugin.saveSettings();
+                }
+                run(plugin, editor, EDITOR_CONSUMERS.translate.id, [
+                    { role: "system", content: PROMPTS.translate(language) },
+                    { role: "user", content: selection }
+                ], output);
+            }).open();
+            return true;
+        }
+    });
+
+    plugin.addCommand({
+        id: 'summarize-note',
+        name: 'Summarize note into a callout',
+        editorCallback: (editor, view) => {
+            const content = editor.getValue();
+            const body = splitFrontmatter(content).body;
+            if (!body.trim()) return;
+
+            // Callout goes at the top of the note, below the frontmatter
+            const output = new EditorStream(editor, editor.offsetToPos(content.length - body.length));
+            const title = view.file?.basename;
+            let started = false;
+            // Newlines are held back so the callout does not end in an empty "> " line
+            let breaks = "";
+            streamIntoEditor(plugin.app, editor, output, onToken => plugin.streamRequest(
+                {
+                    model: plugin.getModel(EDITOR_CONSUMERS.summarize.id),
+                    messages: [
+                        { role: "system", content: PROMPTS.summarize },
+                        { role: "user", content: title ? `# ${title}\n\n${body}` : body }
+                    ]
+                },
+                (token) => {
+                    if (!started) {
+                        onToken("> [!summary]\n> ");
+                        started = true;
+                    }
+                    const text = breaks + token;
+                    const trimmed = text.replace(/\n+$/, "");
+                    breaks = text.slice(trimmed.length);
+                    onToken(trimmed.replace(/\n/g, "\n> "));
+                },
+                () => {
+                    if (started) onToken("\n\n");
+                },
+                () => { },
+                undefined,
+                { pluginId: EDITOR_CONSUMERS.summarize.id }
+            ));
+        }
+    });
+}
+
+function run(plugin: OpenRouterProvider, editor: Editor, pluginId: string, messages: ChatMessage[], output: EditorStream): void {
+    streamIntoEditor(plugin.app, editor, output, onToken => plugin.streamRequest(
+        { model: plugin.getModel(pluginId), messages },
+        onToken,
+        () => { },
+        () => { },
+        undefined,
+        { pluginId }
+    ));
+}
+
+// ==================== MODAL ====================
+
+/** One-field prompt; Enter submits */
+class TextInputModal extends Modal {
+    private title: string;
+    private label: string;
+    private value: string;
+    private onSubmit: (value: string) => void;
+
+    constructor(app: App, title: string, label: string, value: string, onSubmit: (value: string) => void) {
+        super(app);
+        this.title = title;
+        this.label = label;
+        this.value = value;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: this.title });
+
+        new Setting(contentEl)
+            .setName(this.label)
+            .addText(t => {
+                t.setValue(this.value).onChange(v => this.value = v);
+                setTimeout(() => {
+                    t.inputEl.focus();
+                    t.inputEl.select();
+                }, 0);
+                t.inputEl.addEventListener('keydown', (e) => {
+                    if (e.key === 'Enter' && !e.isComposing) {
+                        e.preventDefault();
+                        this.submit();
+                    }
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton(b => b
+                .setButtonText('Run')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private submit(): void {
+        const value = this.value.trim();
+        if (!value) return;
+        this.close();
+        this.onSubmit(value);
+    }
+}
@@ -0,0 +1,102 @@
+/*
+ * EDITOR STREAM
+ * Writes streamed tokens into an editor at a fixed position. The output
+ * becomes a single undo step and Escape cancels the request.
+ */
+
+import { App, Editor, EditorPosition, Notice, Scope } from "obsidian";
+import { Transaction } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { StreamHandle, StreamOutcome } from "./main";
+
+export class EditorStream {
+    private editor: Editor;
+    /** CodeMirror 6 view; null on the legacy editor, where every token is its own undo step */
+    private view: EditorView | null;
+    private start: number;
+    /** Text the output replaces; kept until the first token so failures leave it intact */
+    private original: string;
+    private replaced = false;
+    private written = "";
+
+    constructor(editor: Editor, from: EditorPosition, to: EditorPosition | null = null) {
+        this.editor = editor;
+        this.view = (editor as any).cm || null;
+        this.start = editor.posToOffset(from);
+        this.original = to ? editor.getRange(from, to) : "";
+    }
+
+    get text(): string {
+        return this.written;
+    }
+
+    write(text: string): void {
+        if (!text) return;
+        const from = this.start + this.written.length;
+        const to = this.replaced ? from : this.start + this.original.length;
+        this.replaced = true;
+        this.written += text;
+
+        if (this.view) {
+            // Kept out of the history; commit() records the whole output at once
+            this.view.dispatch({ changes: { from, to, insert: text }, annotations: Transaction.addToHistory.of(false) });
+        } else {
+            this.editor.replaceRange(text, this.editor.offsetToPos(from), this.editor.offsetToPos(to));
+        }
+    }
+
+    /** Replays the output as one change, so a single undo restores the original text */
+    commit(): void {
+        if (!this.view || !this.written) return;
+        const end = this.start + this.written.length;
+        this.view.dispatch({
+            changes: { from: this.start, to: end, insert: this.original },
+            annotations: Transaction.addToHistory.of(false)
+        });
+        this.view.dispatch({
+            changes: { from: this.start, to: this.start + this.original.length, insert: this.written },
+            userEvent: "input"
+        });
+    }
+
+    /** Position after the last written token */
+    end(): EditorPosition {
+        return this.editor.offsetToPos(this.start + this.written.length);
+    }
+}
+
+/**
+ * Runs a stream into the editor. Escape cancels it; the partial output is kept.
+ * Shows a notice on errors and moves the cursor behind the output otherwise.
+ */
+export async function streamIntoEditor(
+    app: App,
+    editor: Editor,
+    output: EditorStream,
+    start: (onToken: (token: string) => void) => StreamHandle | Promise<StreamHandle>
+): Promise<StreamOutcome | null> {
+    let handle: StreamHandle | null = null;
+    let cancelled = false;
+    const scope = new Scope(app.scope);
+    scope.register([], "Escape", () => {
+        cancelled = true;
+        if (handle) handle.cancel();
+        return false;
+    });
+    app.keymap.pushScope(scope);
+
+    try {
+        handle = await start(token => output.write(token));
+        if (cancelled) handle.cancel();
+        const outcome = await handle.done;
+        if (outcome.status === "error") new Notice(`Request failed: ${outcome.error?.message || outcome.error}`);
+        return outcome;
+    } catch (error: any) {
+        new Notice(error?.message || String(error));
+        return null;
+    } finally {
+        app.keymap.popScope(scope);
+        output.commit();
+        if (output.text) editor.setCursor(output.end());
+    }
+}
@@ -0,0 +1,160 @@
+/*
+ * PROVIDER ERRORS
+ * Typed errors consumers can catch with instanceof
+ */
+
+/** Non-2xx response from the API */
+export class ApiError extends Error {
+    status: number;
+    /** Raw Retry-After header, if the server sent one */
+    retryAfter: string | null;
+
+    constructor(status: number, message: string, retryAfter: string | null = null) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+        this.retryAfter = retryAfter;
+        Object.setPrototypeOf(this, ApiError.prototype);
+    }
+}
+
+/** Errors after which the next model in a fallback chain should be tried */
+export function isModelUnavailableError(error: any): boolean {
+    const status = error?.status;
+    if (status === 404 || (status >= 500 && status < 600)) return true;
+    return /no endpoints found|not a valid model|model.*(not found|unavailable|does not exist)|provider.*unavailable/i
+        .test(error?.message || "");
+}
+
+/** 400 response refusing the response_format / json_schema parameter */
+export function isResponseFormatRejected(error: any): boolean {
+    return error instanceof ApiError && error.status === 400
+        && /response.?format|json.?schema|structured.?output/i.test(error.message);
+}
+
+/** Thrown (or passed to onError) when a request to OpenRouter has no API key to send */
+export class MissingApiKeyError extends Error {
+    /** Key profile the request would have used */
+    profileId: string | null;
+
+    constructor(profileId: string | null) {
+        super("OpenRouter API key missing");
+        this.name = "MissingApiKeyError";
+        this.profileId = profileId;
+        Object.setPrototypeOf(this, MissingApiKeyError.prototype);
+    }
+}
+
+export type BudgetPeriod = "day" | "month";
+export type BudgetMetric = "cost" | "requests";
+
+/** Thrown (or passed to onError) when a request would exceed a spending cap */
+export class BudgetExceededError extends Error {
+    /** pluginId the cap belongs to, or null for the global cap */
+    pluginId: string | null;
+    period: BudgetPeriod;
+    metric: BudgetMetric;
+    limit: number;
+    spent: number;
+
+    constructor(pluginId: string | null, period: BudgetPeriod, metric: BudgetMetric, limit: number, spent: number) {
+        const scope = pluginId ? `"${pluginId}"` : "all plugins";
+        const amount = metric === "cost" ? `$${spent.toFixed(2)} of $${limit.toFixed(2)}` : `${spent} of ${limit} requests`;
+        super(`${period === "day" ? "Daily" : "Monthly"} budget exceeded for ${scope} (${amount})`);
+        this.name = "BudgetExceededError";
+        this.pluginId = pluginId;
+        this.period = period;
+        this.metric = metric;
+        this.limit = limit;
+        this.spent = spent;
+        Object.setPrototypeOf(this, BudgetExceededError.prototype);
+    }
+}
+
+export type AttachmentErrorReason = "unsupported-type" | "too-large" | "unsupported-modality";
+
+/** Thrown when a vault file cannot be sent as a message attachment */
+export class AttachmentError extends Error {
+    path: string;
+    reason: AttachmentErrorReason;
+
+    constructor(path: string, reason: AttachmentErrorReason, message: string) {
+        super(message);
+        this.name = "AttachmentError";
+        this.path = path;
+        this.reason = reason;
+        Object.setPrototypeOf(this, AttachmentError.prototype);
+    }
+}
+
+/** Thrown by requestStructured when the model's output still fails validation after all repair attempts */
+export class StructuredOutputError extends Error {
+    /** Validation or parse errors from the last attempt */
+    errors: string[];
+    /** Raw text of the last response */
+    raw: string;
+    attempts: number;
+
+    constructor(errors: string[], raw: string, attempts: number) {
+        super(`Invalid structured output after ${attempts} attempt(s): ${errors.slice(0, 3).join("; ")}`);
+        this.name = "StructuredOutputError";
+        this.errors = errors;
+        this.raw = raw;
+        this.attempts = attempts;
+        Object.setPrototypeOf(this, StructuredOutputError.prototype);
+    }
+}
+
+/** Thrown (or passed to onError) when the prompt plus max_tokens does not fit the model's context window */
+export class ContextExceededError extends Error {
+    model: string;
+    /** Estimated prompt tokens */
+    promptTokens: number;
+    maxTokens: number;
+    contextLength: number;
+
+    constructor(model: string, promptTokens: number, maxTokens: number, contextLength: number) {
+        super(`Request for ${model} needs about ${promptTokens + maxTokens} tokens (prompt ~${promptTokens}, max_tokens ${maxTokens}) but the context window is ${contextLength}`);
+        this.name = "ContextExceededError";
+        this.model = model;
+        this.promptTokens = promptTokens;
+        this.maxTokens = maxTokens;
+        this.contextLength = contextLength;
+        Object.setPrototypeOf(this, ContextExceededError.prototype);
+    }
+}
+
+/** Error object sent inside an SSE event after the stream had started (HTTP status was already 200) */
+export class StreamError extends Error {
+    /** Numeric provider error code, if any (e.g. 429, 502) */
+    status: number | null;
+    code: string | number | null;
+    /** Text received before the error */
+    partialText: string;
+    generationId: string | null;
+
+    constructor(message: string, code: string | number | null, partialText: string, generationId: string | null = null) {
+        super(message);
+        this.name = "StreamError";
+        this.status = typeof code === "number" ? code : null;
+        this.code = code;
+        this.partialText = partialText;
+        this.generationId = generationId;
+        Object.setPrototypeOf(this, StreamError.prototype);
+    }
+}
+
+/** Thrown when a prompt template note cannot be read or has placeholders without a value */
+export class TemplateError extends Error {
+    path: string;
+    /** Placeholders that were neither passed nor given a default */
+    missing: string[];
+
+    constructor(path: string, message: string, missing: string[] = []) {
+        super(message);
+        this.name = "TemplateError";
+        this.path = path;
+        this.missing = missing;
+        Object.setPrototypeOf(this, TemplateError.prototype);
+    }
+}
@@ -0,0 +1,78 @@
+/*
+ * PROVIDER EVENTS
+ * Typed event bus for request lifecycle and settings changes.
+ * Used by the status bar and settings tab, and open to other plugins.
+ */
+
+import { StreamStatus } from "./streamManager";
+import { TokenUsage } from "./usageLedger";
+import { CreditsInfo } from "./main";
+
+// ==================== TYPES ====================
+interface RequestEvent {
+    /** Same id as the request inspector entry */
+    requestId: number;
+    pluginId: string;
+    model: string;
+    stream: boolean;
+}
+
+export interface ProviderEventMap {
+    /** `reasoning` is true when the model is expected to think before answering */
+    "request-start": RequestEvent & { reasoning: boolean; cancel: () => void };
+    "token": RequestEvent & { token: string };
+    "reasoning": RequestEvent & { text: string };
+    /** Another attempt follows: same model after an error, or the next fallback model */
+    "retry": RequestEvent & { attempt: number; nextModel: string; error: any };
+    "rate-limited": RequestEvent & { waitMs: number };
+    "complete": RequestEvent & { status: StreamStatus; cached: boolean; usage: TokenUsage | null };
+    "error": RequestEvent & { error: any };
+    "model-changed": { pluginId: string; modelId: string };
+    "favorites-changed": { favorites: string[] };
+    /** A key profile changed, or a plugin was assigned another profile */
+    "key-changed": { profileId: string | null; pluginId?: string };
+    /** Fresh credits of a key profile, from the background poller or any getCredits call */
+    "credits-changed": { profileId: string; credits: CreditsInfo };
+}
+
+export type ProviderEventName = keyof ProviderEventMap;
+
+type Listener<K extends ProviderEventName> = (payload: ProviderEventMap[K]) => void;
+
+// ==================== BUS ====================
+
+export class ProviderEvents {
+    private listeners: { [K in ProviderEventName]?: Set<Listener<K>> } = {};
+
+    /** Subscribes to an event; returns the unsubscribe function */
+    on<K extends ProviderEventName>(name: K, listener: Listener<K>): () => void {
+        let set = this.listeners[name] as Set<Listener<K>> | undefined;
+        if (!set) {
+            set = new Set<Listener<K>>();
+            (this.listeners as any)[name] = set;
+        }
+        set.add(listener);
+        return () => this.off(name, listener);
+    }
+
+    off<K extends ProviderEventName>(name: K, listener: Listener<K>): void {
+        (this.listeners[name] as Set<Listener<K>> | undefined)?.delete(listener);
+    }
+
+    emit<K extends ProviderEventName>(name: K, payload: ProviderEventMap[K]): void {
+        const set = this.listeners[name] as Set<Listener<K>> | undefined;
+        if (!set) return;
+        // A failing listener must not break the request that emitted the event
+        set.forEach(listener => {
+            try {
+                listener(payload);
+            } catch (e) {
+                console.error(`OpenRouter event listener for "${name}" failed`, e);
+            }
+        });
+    }
+
+    clear(): void {
+        this.listeners = {};
+    }
+}
@@ -0,0 +1,222 @@
+/*
+ * REQUEST INSPECTOR VIEW
+ * Live list of recent requests with request body, headers, streamed
+ * chunks, timing and errors. Entries can be copied as curl or replayed.
+ */
+
+import { ItemView, Notice, WorkspaceLeaf, debounce, setIcon } from "obsidian";
+import OpenRouterProvider from "./main";
+import { RequestLogEntry, RequestLogStatus, toCurl } from "./requestLog";
+
+export const VIEW_TYPE_INSPECTOR = "openrouter-inspector";
+
+interface InspectorFilters {
+    pluginId: string;
+    status: RequestLogStatus | "all";
+    search: string;
+}
+
+export class RequestInspectorView extends ItemView {
+    plugin: OpenRouterProvider;
+    filters: InspectorFilters = { pluginId: "all", status: "all", search: "" };
+    expanded = new Set<number>();
+    listEl!: HTMLElement;
+    pluginSelect!: HTMLSelectElement;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: OpenRouterProvider) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_INSPECTOR;
+    }
+
+    getDisplayText(): string {
+        return "OpenRouter Inspector";
+    }
+
+    getIcon(): string {
+        return "activity";
+    }
+
+    async onOpen(): Promise<void> {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('or-inspector');
+
+        // Filters
+        const toolbar = contentEl.createDiv({ cls: 'or-inspector-toolbar' });
+
+        this.pluginSelect = toolbar.createEl('select', { cls: 'dropdown' });
+        this.pluginSelect.onchange = () => {
+            this.filters.pluginId = this.pluginSelect.value;
+            this.renderList();
+        };
+
+        const statusSelect = toolbar.createEl('select', { cls: 'dropdown' });
+        ['all', 'pending', 'success', 'error', 'aborted'].forEach(s => statusSelect.createEl('option', { value: s, text: s === 'all' ? 'All statuses' : s }));
+        statusSelect.onchange = () => {
+            this.filters.status = statusSelect.value as InspectorFilters["status"];
+            this.renderList();
+        };
+
+        const search = toolbar.createEl('input', { type: 'text', placeholder: 'Search model or body...' });
+        search.oninput = () => {
+            this.filters.search = search.value.toLowerCase();
+            this.renderList();
+        };
+
+        const clearBtn = toolbar.createEl('button', { text: 'Clear' });
+        clearBtn.onclick = () => {
+            this.expanded.clear();
+            this.plugin.requestLog.clear();
+        };
+
+        this.listEl = contentEl.createDiv({ cls: 'or-inspector-list' });
+
+        // Streams update the log per token, so batch re-renders
+        const refresh = debounce(() => this.renderList(), 250, true);
+        this.unsubscribe = this.plugin.requestLog.onChange(refresh);
+        this.renderList();
+    }
+
+    async onClose(): Promise<void> {
+        if (this.unsubscribe) this.unsubscribe();
+        this.unsubscribe = null;
+    }
+
+    private renderPluginOptions(entries: RequestLogEntry[]): void {
+        const ids = Array.from(new Set(entries.map(e => e.pluginId))).sort();
+        if (this.filters.pluginId !== 'all' && !ids.includes(this.filters.pluginId)) ids.push(this.filters.pluginId);
+
+        this.pluginSelect.empty();
+        this.pluginSelect.createEl('option', { value: 'all', text: 'All plugins' });
+        ids.forEach(id => this.pluginSelect.createEl('option', { value: id, text: id }));
+        this.pluginSelect.value = this.filters.pluginId;
+    }
+
+    private matches(entry: RequestLogEntry): boolean {
+        if (this.filters.pluginId !== 'all' && entry.pluginId !== this.filters.pluginId) return false;
+        if (this.filters.status !== 'all' && entry.status !== this.filters.status) return false;
+        if (this.filters.search) {
+            const haystack = `${entry.model} ${JSON.stringify(entry.body)}`.toLowerCase();
+            if (!haystack.includes(this.filters.search)) return false;
+        }
+        return true;
+    }
+
+    renderList(): void {
+        if (!this.listEl) return;
+        const entries = this.plugin.requestLog.list();
+        this.renderPluginOptions(entries);
+        this.listEl.empty();
+
+        const visible = entries.filter(e => this.matches(e));
+        if (visible.length === 0) {
+            this.listEl.createDiv({ text: 'No requests recorded yet', cls: 'or-text-muted or-text-center' });
+            return;
+        }
+
+        visible.forEach(entry => this.renderEntry(this.listEl, entry));
+    }
+
+    private renderEntry(container: HTMLElement, entry: RequestLogEntry): void {
+        const item = container.createDiv({ cls: `or-inspector-item or-inspector-${entry.status}` });
+        const header = item.createDiv({ cls: 'or-inspector-header' });
+
+        const icon = header.createSpan({ cls: 'or-inspector-icon' });
+        setIcon(icon, STATUS_ICONS[entry.status]);
+        header.createSpan({ text: new Date(entry.startTime).toLocaleTimeString(), cls: 'or-text-muted' });
+        header.createSpan({ text: entry.pluginId, cls: 'or-inspector-plugin' });
+        header.createSpan({ text: entry.model, cls: 'or-inspector-model' });
+        header.createSpan({ text: entry.stream ? 'stream' : 'json', cls: 'or-text-muted' });
+        header.createSpan({ text: entry.httpStatus !== null ? String(entry.httpStatus) : '—' });
+        header.createSpan({ text: formatDuration(entry), cls: 'or-text-muted' });
+        if (entry.attempts > 1) header.createSpan({ text: `${entry.attempts} attempts`, cls: 'or-text-muted' });
+
+        header.onclick = () => {
+            if (this.expanded.has(entry.id)) this.expanded.delete(entry.id);
+            else this.expanded.add(entry.id);
+            this.renderList();
+        };
+
+        if (!this.expanded.has(entry.id)) return;
+
+        const details = item.createDiv({ cls: 'or-inspector-details' });
+
+        const actions = details.createDiv({ cls: 'or-btn-container' });
+        const curlBtn = actions.createEl('button', { text: 'Copy as curl' });
+        curlBtn.onclick = async () => {
+            await navigator.clipboard.writeText(toCurl(entry));
+            new Notice('curl command copied (set $OPENROUTER_API_KEY before running)');
+        };
+        const replayBtn = actions.createEl('button', { text: 'Replay', cls: 'mod-cta' });
+        replayBtn.disabled = entry.status === 'pending';
+        replayBtn.onclick = () => this.replay(entry);
+
+        if (entry.error) {
+            details.createDiv({ text: 'Error', cls: 'or-debug-label' });
+            details.createEl('pre', { text: entry.error, cls: 'or-debug-json or-inspector-error-text' });
+        }
+
+        details.createDiv({ text: `POST ${entry.url}`, cls: 'or-debug-label' });
+        details.createEl('pre', { text: JSON.stringify(entry.headers, null, 2), cls: 'or-debug-json' });
+
+        details.createDiv({ text: 'Request body', cls: 'or-debug-label' });
+        details.createEl('pre', { text: JSON.stringify(entry.body, truncateLongStrings, 2), cls: 'or-debug-json' });
+
+        if (entry.reasoning) {
+            details.createDiv({ text: 'Reasoning', cls: 'or-debug-label' });
+            details.createEl('pre', { text: entry.reasoning, cls: 'or-debug-json' });
+        }
+
+        if (entry.stream) {
+            details.createDiv({ text: `Chunks (${entry.chunks.length})`, cls: 'or-debug-label' });
+            details.createEl('pre', { text: entry.chunks.join(''), cls: 'or-debug-json' });
+        }
+
+        if (entry.response) {
+            details.createDiv({ text: 'Response', cls: 'or-debug-label' });
+            details.createEl('pre', { text: JSON.stringify(entry.response, null, 2), cls: 'or-debug-json' });
+        }
+    }
+
+    /**
+     * Sends the consumer's original body again, so presets and reasoning defaults are applied
+     * once, as in the first run. The replay shows up as a new entry.
+     */
+    private replay(entry: RequestLogEntry): void {
+        const body = { ...entry.originalBody, model: entry.model };
+        const options = entry.pluginId !== 'unknown' ? { pluginId: entry.pluginId } : {};
+
+        if (entry.stream) {
+            this.plugin.streamRequest(body, () => { }, () => { }, (e) => new Notice(`Replay failed: ${e.message}`), undefined, options);
+        } else {
+            this.plugin.fetchWithRetry(body, 1, 2000, options).catch(e => new Notice(`Replay failed: ${e.message}`));
+        }
+    }
+}
+
+// ==================== HELPERS ====================
+
+const STATUS_ICONS: Record<RequestLogStatus, string> = {
+    pending: 'loader',
+    success: 'check-circle',
+    error: 'alert-circle',
+    aborted: 'x-circle'
+};
+
+function formatDuration(entry: RequestLogEntry): string {
+    const ms = (entry.endTime ?? Date.now()) - entry.startTime;
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Keeps base64 attachments from flooding the view */
+function truncateLongStrings(key: string, value: any): any {
+    if (typeof value === 'string' && value.length > 2000) {
+        return `${value.slice(0, 200)}… [${value.length} chars]`;
+    }
+    return value;
+}
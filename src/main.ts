@@ -4,50 +4,275 @@
  * Manages: API key, model selection, favorites, credits, streaming
  */
 
-import { Plugin, requestUrl, Notice, App } from "obsidian";
+import { Plugin, Notice, App, Editor, MarkdownView, TFile, WorkspaceLeaf } from "obsidian";
 import { ModelSelectorModal } from "./modelSelector";
 import { OpenRouterSettingTab } from "./settingsTab";
-import { StreamManager } from "./streamManager";
+import { StreamManager, StreamResult, StreamStatus, createStreamResult } from "./streamManager";
 import { StatusBar } from "./statusBar";
+import { RequestScheduler, RequestPriority, QueueStats, parseRetryAfter } from "./scheduler";
+import { BudgetGuard, BudgetLimits } from "./budget";
+import { ApiError, BudgetExceededError, ContextExceededError, StructuredOutputError, MissingApiKeyError, isModelUnavailableError, isResponseFormatRejected } from "./errors";
+import { JsonSchema, buildSchemaInstruction, extractJson, validateSchema } from "./structuredOutput";
+import { ContentPart, fileToContentPart } from "./attachments";
+import { ModelCatalog } from "./modelCatalog";
+import { ObsidianTransport, Transport, TransportResponse, buildHeaders, withAbort } from "./transport";
+import { MockTransport } from "./mockTransport";
+import { BackendConfig, findBackend, stripPrefix, trimBaseUrl } from "./backends";
+import { ConsumerEntry, ConsumerInfo, ConsumerRecord, ConsumerRegistry } from "./consumerRegistry";
+import { ToolCall, ToolChoice, ToolDefinition, ToolHandler, ToolLoopOptions, executeToolCall } from "./tools";
+import { UsageLedger, UsageOutcome, TokenUsage, UsageGroupBy, UsagePeriod, UsageSummaryRow } from "./usageLedger";
+import { RequestLog } from "./requestLog";
+import { ProviderEvents } from "./events";
+import { ContextStrategy, estimateTokens, fitToContext } from "./contextWindow";
+import { splitThinkTags } from "./thinkSplitter";
+import { ParameterPreset, applyPreset } from "./presets";
+import { ResponseCache } from "./responseCache";
+import { RequestInspectorView, VIEW_TYPE_INSPECTOR } from "./inspectorView";
+import { PromptTemplate, TEMPLATES_CONSUMER_ID, TemplateLibrary, TemplateVariables, renderTemplate, splitFrontmatter, templatePlaceholders } from "./templates";
+import { TemplatePickerModal, TemplateVariablesModal } from "./templateModals";
+import { EditorStream, streamIntoEditor } from "./editorStream";
+import { EDITOR_CONSUMERS, registerEditorCommands } from "./editorCommands";
+import { COMPARE_CONSUMER_ID, ModelCompareView, VIEW_TYPE_COMPARE } from "./compareView";
+import { BalanceMonitor } from "./balanceMonitor";
 
 // ==================== TYPES ====================
-export interface OpenRouterSettings {
+export interface KeyProfile {
+    id: string;
+    name: string;
     apiKey: string;
+    /** API base, e.g. https://openrouter.ai/api/v1 (empty = default) */
+    baseUrl?: string;
+}
+
+/** Where one model's request goes: OpenRouter or an additional backend */
+interface RequestRoute {
+    url: string;
+    apiKey: string;
+    /** Model id as the endpoint expects it (backend prefix removed) */
+    model: string;
+    backend?: BackendConfig;
+}
+
+/** OpenRouter's unified `reasoning` request field */
+export interface ReasoningOptions {
+    effort?: "low" | "medium" | "high";
+    /** Reasoning token budget; takes precedence over effort */
+    max_tokens?: number;
+    /** Let the model reason but leave the reasoning out of the response */
+    exclude?: boolean;
+}
+
+export interface OpenRouterSettings {
     apiUrl: string;
+    /** Extra OpenAI-compatible endpoints, routed by model prefix */
+    backends: BackendConfig[];
+    keyProfiles: KeyProfile[];
+    defaultProfileId: string;
+    /** Key profile assigned to each consuming plugin (missing = default) */
+    pluginProfiles: { [pluginId: string]: string };
     favoriteModels: string[];
     modelContextLengths: { [modelId: string]: number };
     pluginModels: { [pluginId: string]: string };
+    /** Every plugin that registered or sent a request, kept while it is unloaded */
+    consumers: { [pluginId: string]: ConsumerRecord };
+    /** Ordered models to try when the plugin's model fails */
+    pluginFallbacks: { [pluginId: string]: string[] };
+    globalBudget: BudgetLimits;
+    pluginBudgets: { [pluginId: string]: BudgetLimits };
+    budgetWarningThreshold: number;
+    maxConcurrentRequests: number;
+    /** How long the cached model catalog is considered fresh */
+    modelCacheHours: number;
+    /** Number of recent requests kept for the inspector */
+    inspectorBufferSize: number;
+    /** Plugins whose identical requests are answered from the response cache */
+    cachePlugins: { [pluginId: string]: boolean };
+    cacheTtlHours: number;
+    cacheMaxEntries: number;
+    /** What to do when prompt + max_tokens exceeds the model's context window */
+    contextStrategy: ContextStrategy;
+    /** Reasoning defaults per plugin, merged into its requests */
+    pluginReasoning: { [pluginId: string]: ReasoningOptions };
+    /** Named generation parameter sets */
+    presets: ParameterPreset[];
+    /** Preset assigned to each consuming plugin (missing = none) */
+    pluginPresets: { [pluginId: string]: string };
+    /** Vault folder holding prompt template notes */
+    templateFolder: string;
+    /** Last target language of the translate command */
+    translateLanguage: string;
+    /** Background credits check of the default key (0 = off) */
+    balancePollMinutes: number;
+    showBalanceInStatusBar: boolean;
+    /** Dollars; a notice appears when the balance drops below (0 = off) */
+    lowBalanceThreshold: number;
+}
+
+/** Credits of a key: the account balance and the key's own spending limit */
+export interface CreditsInfo {
+    /** Dollars purchased on the account */
+    totalCredits: number;
+    /** Dollars spent by the account */
+    totalUsage: number;
+    /** totalCredits - totalUsage */
+    balance: number;
+    /** Spending limit of the key, null if it has none */
+    keyLimit: number | null;
+    /** Dollars spent with this key */
+    keyUsage: number;
+    /** keyLimit - keyUsage, null if the key has no limit */
+    keyRemaining: number | null;
+    isFreeTier: boolean;
+    /** What can still be spent: the lower of balance and keyRemaining */
+    available: number;
+    fetchedAt: number;
 }
 
 export interface ModelInfo {
     id: string;
     name: string;
+    description?: string;
     context_length: number;
-    pricing: { prompt: string; completion: string };
+    pricing: { prompt: string; completion: string; image?: string; request?: string };
+    architecture?: {
+        modality?: string;
+        input_modalities?: string[];
+        output_modalities?: string[];
+    };
+    /** Request parameters the model accepts, e.g. "tools", "response_format", "reasoning" */
+    supported_parameters?: string[];
+    top_provider?: {
+        context_length?: number | null;
+        max_completion_tokens?: number | null;
+    };
+    /** Id of the backend serving this model (unset for OpenRouter) */
+    backend?: string;
+}
+
+export interface ChatMessage {
+    role: "system" | "user" | "assistant" | "tool" | string;
+    /** Plain text, or text / image / file parts for multimodal input */
+    content: string | ContentPart[] | null;
+    /** Set on assistant messages that call tools */
+    tool_calls?: ToolCall[];
+    /** Set on `tool` messages, the id of the call being answered */
+    tool_call_id?: string;
+    name?: string;
 }
 
 export interface RequestBody {
     model: string;
-    messages: { role: string; content: string }[];
+    messages: ChatMessage[];
+    tools?: ToolDefinition[];
+    tool_choice?: ToolChoice;
     [key: string]: unknown;
 }
 
+export interface ToolLoopResult {
+    /** Final assistant text once the model stopped calling tools */
+    content: string;
+    /** Full conversation including assistant tool calls and tool results */
+    messages: ChatMessage[];
+    /** Last raw response */
+    response: any;
+}
+
+export interface RequestOptions {
+    /** Id of the consuming plugin, used for usage accounting */
+    pluginId?: string;
+    /** "interactive" requests jump ahead of queued "batch" jobs (default: interactive) */
+    priority?: RequestPriority;
+    /** Overrides the context window strategy from settings for this request */
+    contextStrategy?: ContextStrategy;
+    /** Send to requestBody.model only: the plugin's fallbacks and preset are skipped */
+    exactModel?: boolean;
+}
+
+export interface StructuredOptions extends RequestOptions {
+    /** Re-ask the model with the validation errors this many times (default 2) */
+    maxRepairs?: number;
+    /** Name sent with the json_schema response format */
+    schemaName?: string;
+    /** Ask for strict schema adherence with the json_schema response format (default false) */
+    strict?: boolean;
+}
+
+export interface StreamOptions extends RequestOptions {
+    /** External signal (e.g. from a closing modal) that cancels the stream */
+    signal?: AbortSignal;
+    /** Called once per complete tool call (streamed argument fragments are joined) */
+    onToolCall?: (call: ToolCall) => void;
+}
+
+export interface TemplateRunOptions extends StreamOptions {
+    onToken?: (token: string) => void;
+    onReasoning?: (reasoning: string) => void;
+}
+
+export interface StreamOutcome {
+    status: StreamStatus | "error";
+    text: string;
+    /** Model that actually answered (may be a fallback) */
+    model: string;
+    error?: any;
+    /** Finish reason, usage, cost and generation id (not set on errors) */
+    result?: StreamResult;
+}
+
+export interface StreamHandle {
+    /** Aborts the request; onComplete is called with status "aborted" */
+    cancel(): void;
+    /** Resolves (never rejects) once the stream completed, failed or was cancelled */
+    done: Promise<StreamOutcome>;
+    /** Text received so far */
+    readonly text: string;
+    /** Model currently being used (changes when falling back) */
+    readonly model: string;
+}
+
 declare global {
     interface Window {
         openrouterProvider: OpenRouterProvider;
     }
 }
 
+const DEFAULT_BASE_URL = "https://openrouter.ai/api/v1";
+/** Times a stream is sent again after a 429 pause, like fetchWithRetry's default 3 attempts */
+const STREAM_RATE_LIMIT_RETRIES = 2;
+
 const DEFAULT_SETTINGS: OpenRouterSettings = {
-    apiKey: "",
-    apiUrl: "https://openrouter.ai/api/v1/chat/completions",
+    apiUrl: `${DEFAULT_BASE_URL}/chat/completions`,
+    backends: [],
+    keyProfiles: [],
+    defaultProfileId: "default",
+    pluginProfiles: {},
     favoriteModels: [
         "google/gemini-2.0-flash-exp:free",
         "openai/gpt-4o-mini",
         "anthropic/claude-3-haiku"
     ],
     modelContextLengths: {},
-    pluginModels: {}
+    pluginModels: {},
+    consumers: {},
+    pluginFallbacks: {},
+    globalBudget: {},
+    pluginBudgets: {},
+    budgetWarningThreshold: 0.8,
+    maxConcurrentRequests: 3,
+    modelCacheHours: 24,
+    inspectorBufferSize: 50,
+    cachePlugins: {},
+    cacheTtlHours: 24,
+    cacheMaxEntries: 200,
+    contextStrategy: "error",
+    pluginReasoning: {},
+    presets: [],
+    pluginPresets: {},
+    templateFolder: "Prompts",
+    translateLanguage: "English",
+    balancePollMinutes: 15,
+    showBalanceInStatusBar: false,
+    lowBalanceThreshold: 0
 };
 
 // ==================== MAIN PLUGIN ====================
@@ -55,20 +280,150 @@ const DEFAULT_SETTINGS: OpenRouterSettings = {
 export default class OpenRouterProvider extends Plugin {
     settings!: OpenRouterSettings;
     statusBar!: StatusBar;
+    usage!: UsageLedger;
+    budget!: BudgetGuard;
+    scheduler!: RequestScheduler;
+    catalog!: ModelCatalog;
+    consumers!: ConsumerRegistry;
+    /** Recent requests shown in the inspector view (memory only) */
+    requestLog!: RequestLog;
+    cache!: ResponseCache;
+    templates!: TemplateLibrary;
+    balance!: BalanceMonitor;
+    /** Version of the consumer API; 2 since streamRequest returns a StreamHandle */
+    readonly apiVersion = 2;
+    /** Request lifecycle and settings change events for the UI and other plugins */
+    events: ProviderEvents = new ProviderEvents();
+    /** All HTTP traffic goes through this; swap with setTransport() for testing */
+    transport: Transport = new ObsidianTransport();
 
     async onload(): Promise<void> {
         await this.loadSettings();
 
+        this.consumers = new ConsumerRegistry(() => this.settings.consumers, () => this.saveSettings());
+        // Plugins that picked a model before the registry existed
+        Object.keys(this.settings.pluginModels).forEach(id => {
+            if (id !== "settings" && !this.settings.consumers[id]) {
+                this.settings.consumers[id] = { id, name: id, lastSeen: 0 };
+            }
+        });
+
+        // Usage ledger lives next to data.json in the plugin folder
+        const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+        this.usage = new UsageLedger(this.app.vault.adapter, `${pluginDir}/usage.json`);
+        await this.usage.load();
+        this.budget = new BudgetGuard(this.usage, () => this.settings);
+
+        this.cache = new ResponseCache(this.app.vault.adapter, `${pluginDir}/cache.json`, () => this.settings);
+        await this.cache.load();
+
+        // Model catalog, served from cache and refreshed in the background
+        this.catalog = new ModelCatalog(
+            this.app.vault.adapter,
+            `${pluginDir}/models.json`,
+            () => this.transport,
+            () => this.settings.backends,
+            () => this.settings.modelCacheHours * 3600 * 1000,
+            (models) => this.usage.setPricing(models)
+        );
+        await this.catalog.load();
+        this.catalog.ensureFresh();
+        this.registerInterval(window.setInterval(() => {
+            if (this.catalog.isStale()) this.catalog.refresh();
+        }, 60 * 60 * 1000));
+
+        this.requestLog = new RequestLog(() => this.settings.inspectorBufferSize);
+
         // Register as global provider
         window.openrouterProvider = this;
 
         // Initialize Status Bar
         const statusBarItem = this.addStatusBarItem();
-        this.statusBar = new StatusBar(statusBarItem);
+        this.statusBar = new StatusBar(statusBarItem, this.events, (model, tokens) => this.usage.calculateCost(model, 0, tokens));
+
+        // Balance readout and low-balance alerts for the default key
+        this.balance = new BalanceMonitor(
+            this.addStatusBarItem(),
+            this.events,
+            () => this.settings,
+            () => this.getCredits(),
+            () => this.getProfile()?.id
+        );
+        this.balance.start();
+
+        // Shared request queue
+        this.scheduler = new RequestScheduler(
+            () => this.settings.maxConcurrentRequests,
+            (stats) => this.statusBar.setQueueDepth(stats.queued)
+        );
 
         // Settings tab
         this.addSettingTab(new OpenRouterSettingTab(this.app, this));
 
+        // Request inspector
+        this.registerView(VIEW_TYPE_INSPECTOR, (leaf) => new RequestInspectorView(leaf, this));
+        this.addCommand({
+            id: 'open-inspector',
+            name: 'Open Request Inspector',
+            callback: () => this.openInspector()
+        });
+
+        this.addCommand({
+            id: 'clear-response-cache',
+            name: 'Clear Response Cache',
+            callback: async () => {
+                await this.cache.clear();
+                new Notice("Response cache cleared");
+            }
+        });
+
+        // Prompt templates from the vault, run under their own consumer entry
+        this.templates = new TemplateLibrary(this.app.vault, () => this.settings.templateFolder);
+        this.addCommand({
+            id: 'run-template-selection',
+            name: 'Run prompt template on selection',
+            editorCheckCallback: (checking, editor, view) => {
+                if (!editor.somethingSelected()) return false;
+                if (!checking) this.pickTemplate(editor, view.file, true);
+                return true;
+            }
+        });
+        this.addCommand({
+            id: 'run-template-note',
+            name: 'Run prompt template on note',
+            editorCallback: (editor, view) => this.pickTemplate(editor, view.file, false)
+        });
+
+        // Model comparison workspace
+        this.registerView(VIEW_TYPE_COMPARE, (leaf) => new ModelCompareView(leaf, this));
+        this.addCommand({
+            id: 'open-model-comparison',
+            name: 'Compare models',
+            callback: () => {
+                // Start from the selection of the active note, if any
+                const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+                this.openComparison(editor?.getSelection() || undefined);
+            }
+        });
+
+        // Continue writing, rewrite, translate, summarize
+        registerEditorCommands(this);
+
+        // Built-in consumers get their own model, preset and usage line; one save for all
+        await this.consumers.register([
+            {
+                id: TEMPLATES_CONSUMER_ID,
+                name: "Prompt Templates",
+                description: "Template commands of this plugin. A template's model frontmatter overrides this model."
+            },
+            {
+                id: COMPARE_CONSUMER_ID,
+                name: "Model Comparison",
+                description: "Comparison view of this plugin. Models are picked in the view; fallbacks and presets do not apply."
+            },
+            ...Object.keys(EDITOR_CONSUMERS).map(key => EDITOR_CONSUMERS[key])
+        ]);
+
         // Command to open settings
         this.addCommand({
             id: 'open-settings',
@@ -84,12 +439,26 @@ export default class OpenRouterProvider extends Plugin {
 
     onunload(): void {
         delete (window as any).openrouterProvider;
+        if (this.scheduler) this.scheduler.clear();
+        if (this.balance) this.balance.stop();
         if (this.statusBar) this.statusBar.reset();
+        this.events.clear();
+        if (this.usage) this.usage.save();
+        if (this.cache) this.cache.save();
     }
 
     // ==================== SETTINGS ====================
     async loadSettings(): Promise<void> {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+        // Copy the defaults so their nested objects are not shared and mutated
+        this.settings = Object.assign(JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), data);
+
+        // Migrate the single pre-profile key into a "Default" profile
+        if (this.settings.keyProfiles.length === 0) {
+            this.settings.keyProfiles = [{ id: "default", name: "Default", apiKey: data?.apiKey || "" }];
+            this.settings.defaultProfileId = "default";
+        }
+        delete (this.settings as any).apiKey;
     }
 
     async saveSettings(): Promise<void> {
@@ -98,23 +467,150 @@ export default class OpenRouterProvider extends Plugin {
 
     // ==================== PUBLIC API ====================
 
-    getApiKey(): string {
-        return this.settings.apiKey;
+    /** Key profile for a plugin: its assigned profile, else the default profile */
+    getProfile(pluginId?: string): KeyProfile {
+        const profiles = this.settings.keyProfiles;
+        const assigned = pluginId ? this.settings.pluginProfiles[pluginId] : undefined;
+        return profiles.find(p => p.id === assigned)
+            || profiles.find(p => p.id === this.settings.defaultProfileId)
+            || profiles[0];
     }
 
+    getProfiles(): KeyProfile[] {
+        return this.settings.keyProfiles;
+    }
+
+    async setPluginProfile(pluginId: string, profileId: string | null): Promise<void> {
+        if (profileId) this.settings.pluginProfiles[pluginId] = profileId;
+        else delete this.settings.pluginProfiles[pluginId];
+        await this.saveSettings();
+        this.events.emit("key-changed", { profileId, pluginId });
+    }
+
+    getApiKey(pluginId?: string): string {
+        return this.getProfile(pluginId)?.apiKey || "";
+    }
+
+    /** Sets the key of the default profile */
     async setApiKey(key: string): Promise<void> {
-        this.settings.apiKey = key;
+        const profile = this.getProfile();
+        profile.apiKey = key;
+        await this.saveSettings();
+        this.events.emit("key-changed", { profileId: profile.id });
+    }
+
+    private getBaseUrl(profile: KeyProfile): string {
+        return trimBaseUrl(profile.baseUrl || DEFAULT_BASE_URL);
+    }
+
+    private getChatUrl(profile: KeyProfile): string {
+        return profile.baseUrl ? `${this.getBaseUrl(profile)}/chat/completions` : this.settings.apiUrl;
+    }
+
+    /** Parameter preset assigned to a plugin, or null */
+    getPreset(pluginId: string): ParameterPreset | null {
+        const id = this.settings.pluginPresets[pluginId];
+        return this.settings.presets.find(p => p.id === id) || null;
+    }
+
+    getPresets(): ParameterPreset[] {
+        return this.settings.presets;
+    }
+
+    async setPluginPreset(pluginId: string, presetId: string | null): Promise<void> {
+        if (presetId) this.settings.pluginPresets[pluginId] = presetId;
+        else delete this.settings.pluginPresets[pluginId];
         await this.saveSettings();
     }
 
+    /**
+     * Renders a prompt template note and streams it. Placeholders are filled from `vars`,
+     * then frontmatter defaults; rejects with TemplateError if one has no value.
+     */
+    async runTemplate(path: string, vars: TemplateVariables = {}, options: TemplateRunOptions = {}): Promise<StreamHandle> {
+        const template = await this.templates.load(path);
+        const messages = renderTemplate(template, vars);
+        const pluginId = options.pluginId || TEMPLATES_CONSUMER_ID;
+        const body: RequestBody = { ...template.parameters, model: template.model || this.getModel(pluginId), messages };
+        return this.streamRequest(
+            body,
+            options.onToken || (() => { }),
+            () => { },
+            () => { },
+            options.onReasoning,
+            { ...options, pluginId }
+        );
+    }
+
+    getBackends(): BackendConfig[] {
+        return this.settings.backends;
+    }
+
+    /** Sends models with a backend prefix to that backend, everything else to OpenRouter */
+    private resolveRoute(modelId: string, profile: KeyProfile): RequestRoute {
+        const backend = findBackend(this.settings.backends, modelId);
+        if (backend) {
+            return {
+                url: `${trimBaseUrl(backend.baseUrl)}/chat/completions`,
+                apiKey: backend.apiKey || "",
+                model: stripPrefix(backend, modelId),
+                backend
+            };
+        }
+        return { url: this.getChatUrl(profile), apiKey: profile?.apiKey || "", model: modelId };
+    }
+
+    registerConsumer(info: ConsumerInfo): Promise<void> {
+        return this.consumers.register(info);
+    }
+
+    unregisterConsumer(pluginId: string): void {
+        this.consumers.unregister(pluginId);
+    }
+
+    /** Registered consumers plus ones seen before that are not loaded right now */
+    getConsumers(): ConsumerEntry[] {
+        return this.consumers.list();
+    }
+
+    /** Capabilities from the list that the model lacks according to the catalog (empty if unknown) */
+    getMissingCapabilities(modelId: string, capabilities: string[] = []): string[] {
+        const info = this.getModelInfo(modelId);
+        if (!info) return [];
+        return capabilities.filter(c =>
+            !info.architecture?.input_modalities?.includes(c) && !info.supported_parameters?.includes(c));
+    }
+
     getModel(pluginId: string): string {
-        return this.settings.pluginModels[pluginId] || this.settings.favoriteModels[0] || "google/gemini-2.0-flash-exp:free";
+        return this.settings.pluginModels[pluginId]
+            || this.consumers.get(pluginId)?.defaultModel
+            || this.settings.favoriteModels[0]
+            || "google/gemini-2.0-flash-exp:free";
     }
 
     async setModel(pluginId: string, modelId: string): Promise<void> {
         this.settings.pluginModels[pluginId] = modelId;
         await this.saveSettings();
         console.log("Plugin model saved:", pluginId, "->", modelId, "All:", this.settings.pluginModels);
+        this.events.emit("model-changed", { pluginId, modelId });
+    }
+
+    getFallbacks(pluginId: string): string[] {
+        return this.settings.pluginFallbacks[pluginId] || [];
+    }
+
+    async setFallbacks(pluginId: string, modelIds: string[]): Promise<void> {
+        this.settings.pluginFallbacks[pluginId] = modelIds;
+        await this.saveSettings();
+    }
+
+    /** Primary model followed by the plugin's fallbacks, without duplicates */
+    getModelChain(pluginId: string, primary: string = this.getModel(pluginId)): string[] {
+        const chain = [primary];
+        this.getFallbacks(pluginId).forEach(m => {
+            if (!chain.includes(m)) chain.push(m);
+        });
+        return chain;
     }
 
     getFavorites(): string[] {
@@ -131,74 +627,373 @@ export default class OpenRouterProvider extends Plugin {
         }
         await this.saveSettings();
         console.log("Favorites saved:", this.settings.favoriteModels);
+        this.events.emit("favorites-changed", { favorites: [...favorites] });
     }
 
     async removeFavorite(modelId: string): Promise<void> {
         this.settings.favoriteModels = this.settings.favoriteModels.filter(m => m !== modelId);
         await this.saveSettings();
         console.log("Favorites after remove:", this.settings.favoriteModels);
+        this.events.emit("favorites-changed", { favorites: [...this.settings.favoriteModels] });
+    }
+
+    /** Spendable dollars of a key profile as a string, e.g. "4.20"; see getCredits for the details */
+    async fetchCredits(profileId?: string): Promise<string | null> {
+        const credits = await this.getCredits(profileId);
+        return credits ? credits.available.toFixed(2) : null;
     }
 
-    async fetchCredits(): Promise<string | null> {
-        if (!this.settings.apiKey) return null;
+    /** Account balance, key limit and free tier status of a key profile (default profile if omitted) */
+    async getCredits(profileId?: string): Promise<CreditsInfo | null> {
+        const profile = this.settings.keyProfiles.find(p => p.id === profileId) || this.getProfile();
+        if (!profile?.apiKey) return null;
+        const credits = await this.fetchCreditsFrom(this.getBaseUrl(profile), profile.apiKey);
+        if (credits) this.events.emit("credits-changed", { profileId: profile.id, credits });
+        return credits;
+    }
+
+    /** Balance of an additional backend, null if it has no credits endpoint */
+    async fetchBackendCredits(backendId: string): Promise<string | null> {
+        const backend = this.settings.backends.find(b => b.id === backendId);
+        if (!backend?.capabilities.credits) return null;
+        const credits = await this.fetchCreditsFrom(trimBaseUrl(backend.baseUrl), backend.apiKey || "");
+        return credits ? credits.available.toFixed(2) : null;
+    }
+
+    private async fetchCreditsFrom(baseUrl: string, apiKey: string): Promise<CreditsInfo | null> {
         try {
             const [creditsRes, keyRes] = await Promise.all([
-                requestUrl({
-                    url: "https://openrouter.ai/api/v1/credits",
+                this.transport.request({
+                    url: `${baseUrl}/credits`,
                     method: "GET",
-                    headers: { "Authorization": `Bearer ${this.settings.apiKey}` }
+                    headers: buildHeaders(apiKey)
                 }),
-                requestUrl({
-                    url: "https://openrouter.ai/api/v1/auth/key",
+                this.transport.request({
+                    url: `${baseUrl}/auth/key`,
                     method: "GET",
-                    headers: { "Authorization": `Bearer ${this.settings.apiKey}` }
+                    headers: buildHeaders(apiKey)
                 })
             ]);
 
-            let accountCredits = 0;
-            if (creditsRes.status === 200) {
-                accountCredits = (creditsRes.json as any)?.data?.total_credits || 0;
+            if (creditsRes.status >= 400 || keyRes.status >= 400) {
+                console.error("Failed to fetch credits", creditsRes.status, keyRes.status);
+                return null;
             }
-
-            let keyRemaining = Infinity;
-            if (keyRes.status === 200 && (keyRes.json as any)?.data?.limit !== null) {
-                keyRemaining = Math.max(0, ((keyRes.json as any).data.limit || 0) - ((keyRes.json as any).data.usage || 0));
-            }
-
-            return Math.min(accountCredits, keyRemaining).toFixed(2);
+            return parseCredits(creditsRes, keyRes);
         } catch (e) {
             console.error("Failed to fetch credits", e);
             return null;
         }
     }
 
+    /** Cached model catalog (may be empty until the first fetch completes) */
+    listModels(): ModelInfo[] {
+        return this.catalog.listModels();
+    }
+
+    getModelInfo(modelId: string): ModelInfo | undefined {
+        return this.catalog.getModelInfo(modelId);
+    }
+
+    /** Force a catalog refresh, e.g. from the model selector */
+    refreshModels(): Promise<ModelInfo[]> {
+        return this.catalog.refresh();
+    }
+
+    getContextLength(modelId: string): number | null {
+        return this.getModelInfo(modelId)?.context_length || this.settings.modelContextLengths[modelId] || null;
+    }
+
+    /** Rough token count (about 4 characters per token) of text, messages or a whole request body */
+    estimateTokens(input: string | ChatMessage[] | RequestBody): number {
+        return estimateTokens(input);
+    }
+
+    /**
+     * Encodes a vault image (png/jpg/webp) or PDF as a content part.
+     * Throws AttachmentError if it is too large or the model cannot take images.
+     */
+    async createAttachment(file: TFile, modelId?: string): Promise<ContentPart> {
+        if (modelId) await this.catalog.ensureFresh();
+        const inputModalities = modelId ? this.getModelInfo(modelId)?.architecture?.input_modalities : undefined;
+        return fileToContentPart(this.app.vault.adapter, file, inputModalities);
+    }
+
+    getQueueStats(): QueueStats {
+        return this.scheduler.getStats();
+    }
+
+    getUsageSummary(groupBy: UsageGroupBy = "plugin", period: UsagePeriod = "day"): UsageSummaryRow[] {
+        return this.usage.summarize(groupBy, period);
+    }
+
+    /** Replaces the HTTP transport, e.g. with a MockTransport in tests */
+    setTransport(transport: Transport): void {
+        this.transport = transport;
+    }
+
+    /** Scriptable in-memory backend, for consumers testing against the provider offline */
+    createMockTransport(): MockTransport {
+        return new MockTransport();
+    }
+
+    /** Opens (or reveals) the request inspector in the right sidebar */
+    async openInspector(): Promise<void> {
+        const { workspace } = this.app;
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_INSPECTOR)[0] || null;
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            if (!leaf) return;
+            await leaf.setViewState({ type: VIEW_TYPE_INSPECTOR, active: true });
+        }
+        workspace.revealLeaf(leaf);
+    }
+
+    /** Opens (or reveals) the model comparison view in a tab, optionally with a prompt */
+    async openComparison(prompt?: string): Promise<void> {
+        const { workspace } = this.app;
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_COMPARE)[0] || null;
+        if (!leaf) {
+            leaf = workspace.getLeaf('tab');
+            await leaf.setViewState({ type: VIEW_TYPE_COMPARE, active: true });
+        }
+        workspace.revealLeaf(leaf);
+        if (prompt && leaf.view instanceof ModelCompareView) leaf.view.setPrompt(prompt);
+    }
+
     openModelSelector(pluginId: string, onSelect: (modelId: string) => void): void {
         new ModelSelectorModal(this.app, this, pluginId, onSelect).open();
     }
 
-    async fetchWithRetry(requestBody: RequestBody, retries: number = 3, delay: number = 2000): Promise<any> {
-        this.statusBar.setConnecting();
+    /** Template command flow: pick a template, ask for custom variables, stream into the editor */
+    private pickTemplate(editor: Editor, file: TFile | null, onSelection: boolean): void {
+        const files = this.templates.list();
+        if (files.length === 0) {
+            new Notice(`No prompt templates in "${this.settings.templateFolder}"`);
+            return;
+        }
+
+        // Output replaces the selection, or goes in at the cursor
+        const from = editor.getCursor("from");
+        const to = onSelection ? editor.getCursor("to") : null;
+        const vars: TemplateVariables = {
+            selection: editor.getSelection(),
+            note: splitFrontmatter(editor.getValue()).body,
+            title: file?.basename || ""
+        };
+
+        new TemplatePickerModal(this.app, files, async (picked) => {
+            let template: PromptTemplate;
+            try {
+                template = await this.templates.load(picked.path);
+            } catch (error: any) {
+                new Notice(error.message);
+                return;
+            }
+
+            const run = (custom: TemplateVariables) => {
+                streamIntoEditor(this.app, editor, new EditorStream(editor, from, to),
+                    onToken => this.runTemplate(template.path, { ...vars, ...custom }, { onToken }));
+            };
+
+            // Custom placeholders; ones with a default are shown prefilled
+            const ask = templatePlaceholders(template).filter(name => vars[name] === undefined);
+            if (ask.length > 0) new TemplateVariablesModal(this.app, template, ask, run).open();
+            else run({});
+        }).open();
+    }
+
+    /** Cache key when the request may use the cache; a hashing failure only skips the cache */
+    private async cacheKeyFor(requestBody: RequestBody, options: RequestOptions): Promise<string | null> {
+        if (!this.cache.accepts(options.pluginId, requestBody)) return null;
+        try {
+            return await this.cache.keyFor(requestBody);
+        } catch (e) {
+            console.error("Failed to compute response cache key", e);
+            return null;
+        }
+    }
+
+    /** Throws MissingApiKeyError (after a notice) unless the model has a key or runs on a backend */
+    private requireApiKey(model: string, profile: KeyProfile | undefined): void {
+        // Local backends may not need a key, OpenRouter always does
+        if (findBackend(this.settings.backends, model) || profile?.apiKey) return;
+        new Notice("OpenRouter API Key missing!");
+        throw new MissingApiKeyError(profile?.id ?? null);
+    }
+
+    /** Runs the budget check, showing a notice before rethrowing BudgetExceededError */
+    private enforceBudget(pluginId: string | undefined): void {
+        try {
+            this.budget.check(pluginId);
+        } catch (e) {
+            if (e instanceof BudgetExceededError) new Notice(`⛔ ${e.message}`);
+            throw e;
+        }
+    }
+
+    /** Preset and reasoning defaults, then the context window check */
+    private prepareBody(requestBody: RequestBody, options: RequestOptions): RequestBody {
+        const withPreset = options.exactModel ? requestBody : this.applyPluginPreset(requestBody, options.pluginId);
+        return this.fitContext(this.applyReasoning(withPreset, options.pluginId), options);
+    }
+
+    /** Models to try in order: the requested one, then the plugin's fallbacks */
+    private requestChain(requestBody: RequestBody, options: RequestOptions): string[] {
+        return options.pluginId && !options.exactModel
+            ? this.getModelChain(options.pluginId, requestBody.model)
+            : [requestBody.model];
+    }
+
+    /** Merges the plugin's parameter preset into the body; fields the consumer set win */
+    private applyPluginPreset(requestBody: RequestBody, pluginId?: string): RequestBody {
+        const preset = pluginId ? this.getPreset(pluginId) : null;
+        if (!preset) return requestBody;
+        return applyPreset(requestBody, preset, !findBackend(this.settings.backends, requestBody.model));
+    }
+
+    /** Adds the plugin's reasoning settings to the body; fields the consumer set win */
+    private applyReasoning(requestBody: RequestBody, pluginId?: string): RequestBody {
+        const defaults = pluginId ? this.settings.pluginReasoning[pluginId] : undefined;
+        // Additional backends do not know the field
+        if (!defaults || findBackend(this.settings.backends, requestBody.model)) return requestBody;
+
+        const requested = (requestBody.reasoning || {}) as ReasoningOptions;
+        const reasoning: ReasoningOptions = {};
+        // effort and max_tokens are mutually exclusive
+        if (requested.effort === undefined && requested.max_tokens === undefined) {
+            if (defaults.max_tokens) reasoning.max_tokens = defaults.max_tokens;
+            else if (defaults.effort) reasoning.effort = defaults.effort;
+        }
+        if (defaults.exclude) reasoning.exclude = true;
+        if (Object.keys(reasoning).length === 0) return requestBody;
+
+        return { ...requestBody, reasoning: { ...reasoning, ...requested } };
+    }
+
+    /** Whether the model is expected to think before answering (for the "Thinking" state) */
+    private expectsReasoning(requestBody: RequestBody): boolean {
+        const reasoning = requestBody.reasoning as ReasoningOptions | undefined;
+        if (reasoning?.effort || reasoning?.max_tokens) return true;
+        return !!this.getModelInfo(requestBody.model)?.supported_parameters?.includes("reasoning");
+    }
+
+    /**
+     * Pre-flight context check against the smallest known window in the fallback chain,
+     * so any model may answer; returns the (possibly trimmed) body or throws ContextExceededError
+     */
+    private fitContext(requestBody: RequestBody, options: RequestOptions): RequestBody {
+        let limiting: string | null = null;
+        let contextLength = 0;
+        for (const model of this.requestChain(requestBody, options)) {
+            const length = this.getContextLength(model);
+            if (length && (!contextLength || length < contextLength)) {
+                limiting = model;
+                contextLength = length;
+            }
+        }
+        if (!limiting) return requestBody;
+
+        let strategy = options.contextStrategy || this.settings.contextStrategy;
+        // Only OpenRouter understands the middle-out transform
+        if (strategy === "middle-out" && findBackend(this.settings.backends, limiting)) strategy = "error";
+
+        try {
+            // Measured as the limiting model so errors name it
+            const fitted = fitToContext({ ...requestBody, model: limiting }, contextLength, strategy);
+            return { ...fitted, model: requestBody.model };
+        } catch (e) {
+            if (e instanceof ContextExceededError) new Notice(`⛔ ${e.message}`);
+            throw e;
+        }
+    }
+
+    private recordUsage(
+        pluginId: string | undefined,
+        model: string,
+        startTime: number,
+        outcome: UsageOutcome,
+        stream: boolean,
+        usage?: TokenUsage | null
+    ): void {
+        if (pluginId) this.consumers.touch(pluginId);
+        this.usage.record({
+            timestamp: startTime,
+            pluginId: pluginId || "unknown",
+            model,
+            promptTokens: usage?.prompt_tokens || 0,
+            completionTokens: usage?.completion_tokens || 0,
+            latencyMs: Date.now() - startTime,
+            outcome,
+            stream
+        }, usage);
+    }
+
+    async fetchWithRetry(requestBody: RequestBody, retries: number = 3, delay: number = 2000, options: RequestOptions = {}): Promise<any> {
+        this.requireApiKey(requestBody.model, this.getProfile(options.pluginId));
+        this.enforceBudget(options.pluginId);
+        const originalBody = requestBody;
+        requestBody = this.prepareBody(requestBody, options);
+
+        const logEntry = this.requestLog.start(options.pluginId, requestBody.model, false, requestBody, originalBody);
+        const event = (model: string) => ({ requestId: logEntry.id, pluginId: logEntry.pluginId, model, stream: false });
+        // Cancelling (e.g. from the status bar) rejects with an AbortError; a late response is ignored
+        const abortController = new AbortController();
+        this.events.emit("request-start", {
+            ...event(requestBody.model),
+            reasoning: this.expectsReasoning(requestBody),
+            cancel: () => abortController.abort()
+        });
+
+        const cacheKey = await this.cacheKeyFor(requestBody, options);
+        const cached = cacheKey ? this.cache.get(cacheKey) : null;
+        if (cached) {
+            if (options.pluginId) this.consumers.touch(options.pluginId);
+            // Copy so callers mutating the response do not change the cache
+            const json = JSON.parse(JSON.stringify(cached.response));
+            this.requestLog.finish(logEntry, "success", { response: { cache: "hit" } });
+            this.events.emit("complete", { ...event(cached.model), status: "completed", cached: true, usage: null });
+            return { status: 200, headers: { "x-cache": "hit" }, text: JSON.stringify(json), json };
+        }
+
+        const startTime = Date.now();
+        const profile = this.getProfile(options.pluginId);
+        const chain = this.requestChain(requestBody, options);
+        let modelIndex = 0;
+        const cancelled = (model: string, error: any) => {
+            this.recordUsage(options.pluginId, model, startTime, "aborted", false);
+            this.requestLog.finish(logEntry, "aborted");
+            this.events.emit("complete", { ...event(model), status: "aborted", cached: false, usage: null });
+            return error;
+        };
 
         for (let i = 0; i < retries; i++) {
+            const model = chain[modelIndex];
+            const route = this.resolveRoute(model, profile);
+            let release: () => void;
             try {
-                this.statusBar.setGenerating();
-                const response = await requestUrl({
-                    url: this.settings.apiUrl,
+                release = await this.scheduler.acquire(options.pluginId, options.priority, abortController.signal);
+            } catch (error) {
+                throw cancelled(model, error);
+            }
+            try {
+                const headers = buildHeaders(route.apiKey, true);
+                const body = { ...requestBody, model: route.model };
+                this.requestLog.attempt(logEntry, route.url, model, headers, body);
+                const response = await withAbort(this.transport.request({
+                    url: route.url,
                     method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                        "Authorization": `Bearer ${this.settings.apiKey}`,
-                        "HTTP-Referer": "https://obsidian.md",
-                        "X-Title": "Obsidian OpenRouter Provider"
-                    },
-                    body: JSON.stringify(requestBody)
-                });
+                    headers,
+                    body: JSON.stringify(body),
+                    signal: abortController.signal
+                }), abortController.signal);
 
                 if (response.status === 429) {
-                    new Notice(`⚠️ Rate limit! Waiting ${delay / 1000}s...`);
-                    this.statusBar.item.setText(` Rate limited (${delay / 1000}s)`);
-                    await new Promise(r => setTimeout(r, delay));
-                    delay *= 2;
+                    // Pause the shared queue instead of backing off per request
+                    const waitMs = this.scheduler.rateLimited(parseRetryAfter(response.headers["retry-after"]));
+                    new Notice(`⚠️ Rate limit! Pausing requests for ${waitMs / 1000}s...`);
+                    this.events.emit("rate-limited", { ...event(model), waitMs });
+                    if (i < retries - 1) this.events.emit("retry", { ...event(model), attempt: i + 1, nextModel: model, error: null });
                     continue;
                 }
 
@@ -208,71 +1003,416 @@ export default class OpenRouterProvider extends Plugin {
                         const errJson = response.json as any;
                         if (errJson?.error?.message) errorMsg += `: ${errJson.error.message}`;
                     } catch (e) { }
-                    throw new Error(errorMsg);
+                    throw new ApiError(response.status, errorMsg, response.headers["retry-after"] || null);
+                }
+
+                const json = response.json as any;
+
+                // Move inline <think> blocks from the content to message.reasoning
+                const message = json?.choices?.[0]?.message;
+                if (typeof message?.content === "string") {
+                    const parts = splitThinkTags(message.content);
+                    message.content = parts.text.trim();
+                    if (parts.reasoning && !message.reasoning) message.reasoning = parts.reasoning;
                 }
 
-                // Clean <think> tags from reasoning models
-                if ((response.json as any)?.choices?.[0]?.message?.content) {
-                    (response.json as any).choices[0].message.content =
-                        (response.json as any).choices[0].message.content.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
+                // Report which model answered, with the backend prefix if routed to one
+                if (json && (!json.model || route.backend)) json.model = model;
+                this.scheduler.reportSuccess();
+                this.recordUsage(options.pluginId, json?.model || model, startTime, "success", false, json?.usage);
+                this.requestLog.finish(logEntry, "success", { httpStatus: response.status, response: json });
+                if (cacheKey && json) {
+                    this.cache.set(cacheKey, json.model || model, json.choices?.[0]?.message?.content || "", JSON.parse(JSON.stringify(json)));
                 }
 
-                this.statusBar.setSuccess();
+                this.events.emit("complete", { ...event(json?.model || model), status: "completed", cached: false, usage: json?.usage || null });
                 return response;
 
             } catch (error) {
-                if (i === retries - 1) {
-                    this.statusBar.setError("API Failed");
+                if ((error as any)?.name === "AbortError") throw cancelled(model, error);
+                if (isModelUnavailableError(error) && modelIndex < chain.length - 1) {
+                    modelIndex++;
+                    new Notice(`⚠️ ${model} unavailable, trying ${chain[modelIndex]}`);
+                    this.events.emit("retry", { ...event(model), attempt: i + 1, nextModel: chain[modelIndex], error });
+                    i--; // Switching models does not use up a retry
+                    continue;
+                }
+                // A refused response format fails the same way on every retry
+                if (i === retries - 1 || isResponseFormatRejected(error)) {
+                    this.recordUsage(options.pluginId, model, startTime, "error", false);
+                    this.requestLog.finish(logEntry, "error", { httpStatus: (error as any)?.status ?? null, error });
+                    this.events.emit("error", { ...event(model), error });
                     throw error;
                 }
+                this.events.emit("retry", { ...event(model), attempt: i + 1, nextModel: model, error });
+                // Free the slot while waiting to retry
+                release();
                 await new Promise(r => setTimeout(r, delay));
                 delay *= 1.5;
+            } finally {
+                release();
             }
         }
+
+        const exhausted = new Error("API Error 429: Rate limit retries exhausted");
+        this.recordUsage(options.pluginId, chain[modelIndex], startTime, "error", false);
+        this.requestLog.finish(logEntry, "error", { httpStatus: 429, error: exhausted });
+        this.events.emit("error", { ...event(chain[modelIndex]), error: exhausted });
+        throw exhausted;
+    }
+
+    /**
+     * Sends the request, runs every tool the model calls with the matching handler,
+     * appends the results and repeats until the model answers without tool calls.
+     */
+    async runToolLoop(
+        requestBody: RequestBody,
+        handlers: { [name: string]: ToolHandler },
+        options: RequestOptions & ToolLoopOptions = {}
+    ): Promise<ToolLoopResult> {
+        const maxIterations = options.maxIterations ?? 8;
+        const messages: ChatMessage[] = [...requestBody.messages];
+
+        for (let i = 0; i < maxIterations; i++) {
+            const response = await this.fetchWithRetry({ ...requestBody, messages }, 3, 2000, options);
+            const message = (response.json as any)?.choices?.[0]?.message;
+            if (!message) throw new Error("API returned no message");
+
+            const toolCalls: ToolCall[] = message.tool_calls || [];
+            messages.push({ role: "assistant", content: message.content ?? null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) });
+
+            if (toolCalls.length === 0) {
+                return { content: message.content || "", messages, response };
+            }
+
+            for (const call of toolCalls) {
+                const result = await executeToolCall(call, handlers);
+                messages.push({ role: "tool", tool_call_id: call.id, name: call.function.name, content: result });
+                if (options.onToolResult) options.onToolResult(call, result);
+            }
+        }
+
+        throw new Error(`Tool loop stopped after ${maxIterations} iterations`);
+    }
+
+    /**
+     * Requests JSON matching `schema`. Uses response_format json_schema when the model
+     * supports it, otherwise (or when the API rejects the format) prompt instructions.
+     * Invalid output is sent back with the validation errors; throws
+     * StructuredOutputError once the repairs are used up.
+     */
+    async requestStructured<T = any>(requestBody: RequestBody, schema: JsonSchema, options: StructuredOptions = {}): Promise<T> {
+        const maxRepairs = options.maxRepairs ?? 2;
+        const info = this.getModelInfo(requestBody.model);
+        let nativeSchema = !!info?.supported_parameters?.some(p => p === "response_format" || p === "structured_outputs");
+
+        let messages: ChatMessage[] = nativeSchema
+            ? [...requestBody.messages]
+            : [{ role: "system", content: buildSchemaInstruction(schema) }, ...requestBody.messages];
+        let body: RequestBody = nativeSchema
+            ? {
+                ...requestBody,
+                response_format: {
+                    type: "json_schema",
+                    json_schema: { name: options.schemaName || "response", strict: !!options.strict, schema }
+                }
+            }
+            : { ...requestBody };
+
+        let errors: string[] = [];
+        let raw = "";
+
+        for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+            let response: any;
+            try {
+                response = await this.fetchWithRetry({ ...body, messages }, 3, 2000, options);
+            } catch (e) {
+                if (!nativeSchema || !isResponseFormatRejected(e)) throw e;
+                // Listed as supported but refused (e.g. the schema uses unsupported keywords)
+                nativeSchema = false;
+                body = { ...requestBody };
+                messages = [{ role: "system", content: buildSchemaInstruction(schema) }, ...requestBody.messages];
+                attempt--;
+                continue;
+            }
+            raw = (response.json as any)?.choices?.[0]?.message?.content || "";
+
+            try {
+                const value = extractJson(raw);
+                errors = validateSchema(value, schema);
+                if (errors.length === 0) return value as T;
+            } catch (e: any) {
+                errors = [`Response is not valid JSON: ${e.message}`];
+            }
+
+            messages.push(
+                { role: "assistant", content: raw },
+                { role: "user", content: `Your response did not match the schema:\n- ${errors.join("\n- ")}\nReply again with only the corrected JSON.` }
+            );
+        }
+
+        throw new StructuredOutputError(errors, raw, maxRepairs + 1);
     }
 
-    // New Streaming Method
-    async streamRequest(
+    // Streaming Method - returns a handle so consumers can cancel
+    streamRequest(
         requestBody: RequestBody,
         onToken: (token: string) => void,
-        onComplete: (fullText: string) => void,
+        onComplete: (fullText: string, status: StreamStatus, result: StreamResult) => void,
         onError: (error: any) => void,
-        onReasoning?: (reasoning: string) => void
-    ): Promise<void> {
-        const apiKey = this.settings.apiKey;
-        if (!apiKey) {
-            new Notice("OpenRouter API Key missing!");
-            return;
-        }
+        onReasoning?: (reasoning: string) => void,
+        options: StreamOptions = {}
+    ): StreamHandle {
+        // A throwing consumer must not turn a finished request into a failed one
+        onToken = guardCallback("onToken", onToken);
+        onComplete = guardCallback("onComplete", onComplete);
+        onError = guardCallback("onError", onError);
+        if (onReasoning) onReasoning = guardCallback("onReasoning", onReasoning);
+        const consumerToolCall = options.onToolCall ? guardCallback("onToolCall", options.onToolCall) : null;
+
+        const abortController = new AbortController();
+        const chain = this.requestChain(requestBody, options);
+        let model = chain[0];
+        let text = "";
+        let resolveDone!: (outcome: StreamOutcome) => void;
+        const done = new Promise<StreamOutcome>(resolve => resolveDone = resolve);
 
-        this.statusBar.setConnecting();
+        const handle: StreamHandle = {
+            cancel: () => abortController.abort(),
+            done,
+            get text() { return text; },
+            get model() { return model; }
+        };
 
-        // Initial "Thinking" state if model name suggests it
-        if (requestBody.model.includes("deepseek") || requestBody.model.includes("reasoner")) {
-            this.statusBar.setThinking();
+        const profile = this.getProfile(options.pluginId);
+        const originalBody = requestBody;
+        try {
+            this.requireApiKey(model, profile);
+            this.enforceBudget(options.pluginId);
+            requestBody = this.prepareBody(requestBody, options);
+        } catch (error) {
+            // Refused before sending; reported like a failed request
+            const entry = this.requestLog.start(options.pluginId, model, true, originalBody);
+            this.requestLog.finish(entry, "error", { error });
+            this.events.emit("error", { requestId: entry.id, pluginId: entry.pluginId, model, stream: true, error });
+            onError(error);
+            resolveDone({ status: "error", text, model, error });
+            return handle;
         }
 
-        await StreamManager.streamRequest(
-            this.settings.apiUrl,
-            apiKey,
-            requestBody,
-            (token) => {
-                this.statusBar.updateProgress(1);
-                onToken(token);
-            },
-            (error) => {
-                this.statusBar.setError("Stream Error");
-                onError(error);
-            },
-            (fullText) => {
-                this.statusBar.setSuccess();
-                onComplete(fullText);
-            },
-            new AbortController(), // Default controller
-            (reasoning) => {
-                this.statusBar.setThinking(); // Ensure status says "Thinking..."
-                if (onReasoning) onReasoning(reasoning);
+        // Forward cancellation from the consumer's own signal
+        const { signal } = options;
+        const onExternalAbort = () => abortController.abort();
+        if (signal) {
+            if (signal.aborted) abortController.abort();
+            else signal.addEventListener("abort", onExternalAbort);
+        }
+        const detach = () => signal?.removeEventListener("abort", onExternalAbort);
+
+        const startTime = Date.now();
+        let usage: TokenUsage | null = null;
+        const logEntry = this.requestLog.start(options.pluginId, requestBody.model, true, requestBody, originalBody);
+        const event = () => ({ requestId: logEntry.id, pluginId: logEntry.pluginId, model, stream: true });
+        this.events.emit("request-start", {
+            ...event(),
+            reasoning: this.expectsReasoning(requestBody),
+            cancel: () => abortController.abort()
+        });
+
+        // Tool calls are not replayed, so streams that made one are not cached
+        let toolCalled = false;
+        const onToolCall = (call: ToolCall) => {
+            toolCalled = true;
+            if (consumerToolCall) consumerToolCall(call);
+        };
+
+        const run = async () => {
+            const cacheKey = await this.cacheKeyFor(requestBody, options);
+            const cached = cacheKey ? this.cache.get(cacheKey) : null;
+            if (cached) {
+                // Replay through onToken so consumers need no separate path
+                model = cached.model;
+                (cached.text.match(/\S+\s*|\s+/g) || []).forEach(token => {
+                    text += token;
+                    this.events.emit("token", { ...event(), token });
+                    onToken(token);
+                });
+                detach();
+                if (options.pluginId) this.consumers.touch(options.pluginId);
+                this.requestLog.finish(logEntry, "success", { response: { cache: "hit" } });
+                this.events.emit("complete", { ...event(), status: "completed", cached: true, usage: null });
+                const result = createStreamResult("completed", text, model);
+                onComplete(text, "completed", result);
+                resolveDone({ status: "completed", text, model, result });
+                return;
             }
-        );
+
+            // Cancelled while still waiting in the queue
+            const abortedInQueue = () => {
+                detach();
+                this.requestLog.finish(logEntry, "aborted");
+                this.events.emit("complete", { ...event(), status: "aborted", cached: false, usage: null });
+                const result = createStreamResult("aborted", "", model);
+                onComplete("", "aborted", result);
+                resolveDone({ status: "aborted", text: "", model, result });
+            };
+
+            let release: () => void;
+            try {
+                release = await this.scheduler.acquire(options.pluginId, options.priority, abortController.signal);
+            } catch (e) {
+                abortedInQueue();
+                return;
+            }
+
+            try {
+                let rateLimitRetries = 0;
+                for (let m = 0; m < chain.length; m++) {
+                    model = chain[m];
+                    const route = this.resolveRoute(model, profile);
+                    // Ask OpenRouter to append token usage to the final chunk
+                    const usageField = !route.backend || route.backend.capabilities.usageAccounting
+                        ? { usage: { include: true } }
+                        : {};
+                    const body = { ...usageField, ...requestBody, model: route.model };
+                    let failure: any = null;
+                    this.requestLog.attempt(logEntry, route.url, model, buildHeaders(route.apiKey, true), body);
+
+                    await StreamManager.streamRequest(
+                        this.transport,
+                        route.url,
+                        route.apiKey,
+                        body,
+                        (token) => {
+                            text += token;
+                            this.requestLog.chunk(logEntry, token);
+                            this.events.emit("token", { ...event(), token });
+                            onToken(token);
+                        },
+                        (error) => failure = error,
+                        (fullText, status, streamResult) => {
+                            detach();
+                            // Report the prefixed id for backends, like fetchWithRetry does
+                            const result = { ...streamResult, model: route.backend || !streamResult.model ? model : streamResult.model };
+                            if (status === "completed") this.scheduler.reportSuccess();
+                            this.recordUsage(options.pluginId, model, startTime, status === "aborted" ? "aborted" : "success", true, usage);
+                            if (cacheKey && status === "completed" && !toolCalled) {
+                                this.cache.set(cacheKey, model, fullText, {
+                                    model,
+                                    choices: [{ message: { role: "assistant", content: fullText } }],
+                                    usage
+                                });
+                            }
+                            this.requestLog.finish(logEntry, status === "aborted" ? "aborted" : "success", {
+                                httpStatus: status === "aborted" ? null : 200,
+                                response: { id: result.id, model: result.model, finishReason: result.finishReason, usage: result.usage }
+                            });
+                            this.events.emit("complete", { ...event(), status, cached: false, usage });
+                            onComplete(fullText, status, result);
+                            resolveDone({ status, text: fullText, model, result });
+                        },
+                        abortController,
+                        (reasoning) => {
+                            this.requestLog.reasoning(logEntry, reasoning);
+                            this.events.emit("reasoning", { ...event(), text: reasoning });
+                            if (onReasoning) onReasoning(reasoning);
+                        },
+                        (u) => usage = u,
+                        onToolCall
+                    );
+
+                    if (!failure) break;
+
+                    if (failure.status === 429) {
+                        const waitMs = this.scheduler.rateLimited(parseRetryAfter(failure.retryAfter));
+                        this.events.emit("rate-limited", { ...event(), waitMs });
+                        if (!text && rateLimitRetries < STREAM_RATE_LIMIT_RETRIES) {
+                            // Wait out the pause in the queue, then send the same model again
+                            rateLimitRetries++;
+                            this.events.emit("retry", { ...event(), attempt: rateLimitRetries, nextModel: model, error: failure });
+                            release();
+                            try {
+                                release = await this.scheduler.acquire(options.pluginId, options.priority, abortController.signal);
+                            } catch (e) {
+                                abortedInQueue();
+                                return;
+                            }
+                            m--;
+                            continue;
+                        }
+                    }
+
+                    // Only fall back before anything reached the consumer
+                    if (!text && isModelUnavailableError(failure) && m < chain.length - 1) {
+                        new Notice(`⚠️ ${model} unavailable, trying ${chain[m + 1]}`);
+                        this.events.emit("retry", { ...event(), attempt: m + 1, nextModel: chain[m + 1], error: failure });
+                        continue;
+                    }
+
+                    detach();
+                    this.recordUsage(options.pluginId, model, startTime, "error", true, usage);
+                    this.requestLog.finish(logEntry, "error", { httpStatus: failure.status ?? null, error: failure });
+                    this.events.emit("error", { ...event(), error: failure });
+                    onError(failure);
+                    resolveDone({ status: "error", text, model, error: failure });
+                    break;
+                }
+            } finally {
+                release();
+            }
+        };
+        run().catch(error => {
+            // E.g. a cache failure; the request must still settle
+            detach();
+            this.requestLog.finish(logEntry, "error", { error });
+            this.events.emit("error", { ...event(), error });
+            onError(error);
+            resolveDone({ status: "error", text, model, error });
+        });
+
+        return handle;
     }
 }
+
+// ==================== HELPERS ====================
+
+/** Logs exceptions thrown by a consumer callback instead of passing them on */
+function guardCallback<A extends any[]>(name: string, callback: (...args: A) => void): (...args: A) => void {
+    return (...args: A) => {
+        try {
+            callback(...args);
+        } catch (e) {
+            console.error(`OpenRouter ${name} callback failed`, e);
+        }
+    };
+}
+
+/** Builds CreditsInfo from the /credits and /auth/key responses */
+export function parseCredits(creditsRes: TransportResponse, keyRes: TransportResponse): CreditsInfo {
+    const account = creditsRes.status === 200 ? creditsRes.json?.data || {} : {};
+    const key = keyRes.status === 200 ? keyRes.json?.data || {} : {};
+
+    const totalCredits = account.total_credits || 0;
+    const totalUsage = account.total_usage || 0;
+    const balance = Math.max(0, totalCredits - totalUsage);
+    const keyLimit = typeof key.limit === "number" ? key.limit : null;
+    const keyUsage = key.usage || 0;
+    const keyRemaining = keyLimit !== null ? Math.max(0, keyLimit - keyUsage) : null;
+
+    return {
+        totalCredits,
+        totalUsage,
+        balance,
+        keyLimit,
+        keyUsage,
+        keyRemaining,
+        isFreeTier: !!key.is_free_tier,
+        available: keyRemaining !== null ? Math.min(balance, keyRemaining) : balance,
+        fetchedAt: Date.now()
+    };
+}
+
+/** Remaining dollars: the lower of the account balance and the key's remaining limit */
+export function calculateCredits(creditsRes: TransportResponse, keyRes: TransportResponse): string {
+    return parseCredits(creditsRes, keyRes).available.toFixed(2);
+}
@@ -0,0 +1,152 @@
+/*
+ * MOCK TRANSPORT
+ * Scriptable in-memory OpenRouter backend for offline testing.
+ * Replays canned JSON and SSE chunk sequences, including 429s,
+ * mid-stream errors and lines split across chunks.
+ */
+
+import { StreamResponse, Transport, TransportRequest, TransportResponse } from "./transport";
+
+// ==================== TYPES ====================
+export interface MockReply {
+    status?: number;
+    headers?: Record<string, string>;
+    /** JSON body (one-shot requests, or a non-streaming reply to a stream request) */
+    json?: any;
+    /** Raw SSE chunks, sent as-is so a line may be split across chunks */
+    chunks?: string[];
+    /** Network error raised after all chunks were sent */
+    error?: Error;
+}
+
+type Matcher = (req: TransportRequest) => boolean;
+
+interface Route {
+    match: Matcher;
+    replies: MockReply[];
+}
+
+// ==================== MOCK ====================
+
+export class MockTransport implements Transport {
+    /** Every request received, in order */
+    requests: TransportRequest[] = [];
+    private routes: Route[] = [];
+
+    /**
+     * Adds replies for requests whose URL contains / matches `match`.
+     * Replies are used in order; the last one repeats.
+     */
+    on(match: string | RegExp | Matcher, ...replies: MockReply[]): this {
+        const matcher: Matcher = typeof match === "function"
+            ? match
+            : typeof match === "string"
+                ? req => req.url.includes(match)
+                : req => match.test(req.url);
+        this.routes.push({ match: matcher, replies });
+        return this;
+    }
+
+    reset(): void {
+        this.requests = [];
+        this.routes = [];
+    }
+
+    async request(req: TransportRequest): Promise<TransportResponse> {
+        const reply = this.next(req);
+        if (reply.error) throw reply.error;
+        const text = reply.json !== undefined ? JSON.stringify(reply.json) : (reply.chunks || []).join("");
+        return {
+            status: reply.status ?? 200,
+            headers: lowerCaseKeys(reply.headers),
+            text,
+            json: reply.json ?? null
+        };
+    }
+
+    async stream(req: TransportRequest): Promise<StreamResponse> {
+        if (req.signal?.aborted) throw abortError();
+        const reply = this.next(req);
+        const status = reply.status ?? 200;
+        const headers = lowerCaseKeys({
+            "content-type": reply.chunks ? "text/event-stream" : "application/json",
+            ...reply.headers
+        });
+
+        const encoder = new TextEncoder();
+        const chunks = reply.chunks || [JSON.stringify(reply.json ?? {})];
+        const signal = req.signal;
+        let index = 0;
+
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                if (signal?.aborted) {
+                    controller.error(abortError());
+                } else if (index < chunks.length) {
+                    controller.enqueue(encoder.encode(chunks[index++]));
+                } else if (reply.error) {
+                    controller.error(reply.error);
+                } else {
+                    controller.close();
+                }
+            }
+        });
+
+        return {
+            ok: status >= 200 && status < 300,
+            status,
+            statusText: status === 429 ? "Too Many Requests" : "",
+            headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+            body,
+            json: async () => reply.json ?? JSON.parse(chunks.join(""))
+        };
+    }
+
+    private next(req: TransportRequest): MockReply {
+        this.requests.push(req);
+        const route = this.routes.find(r => r.match(req));
+        if (!route || route.replies.length === 0) {
+            return { status: 404, json: { error: { message: `No mock route for ${req.url}` } } };
+        }
+        return route.replies.length > 1 ? route.replies.shift() as MockReply : route.replies[0];
+    }
+
+    // ==================== BUILDERS ====================
+
+    /** SSE chunks for a completion streamed as the given text pieces */
+    sse(pieces: string[], extra: { usage?: any; model?: string } = {}): string[] {
+        const events = pieces.map(content =>
+            `data: ${JSON.stringify({ model: extra.model, choices: [{ delta: { content } }] })}\n\n`);
+        const final: any = { model: extra.model, choices: [{ delta: {}, finish_reason: "stop" }] };
+        if (extra.usage) final.usage = extra.usage;
+        events.push(`data: ${JSON.stringify(final)}\n\n`, "data: [DONE]\n\n");
+        return events;
+    }
+
+    /** Re-cuts chunks every `size` characters so lines end up split mid-JSON */
+    split(chunks: string[], size: number): string[] {
+        const joined = chunks.join("");
+        const result: string[] = [];
+        for (let i = 0; i < joined.length; i += size) result.push(joined.slice(i, i + size));
+        return result;
+    }
+
+    /** Non-streaming chat completion body */
+    completion(content: string, extra: { usage?: any; model?: string } = {}): any {
+        return { model: extra.model, choices: [{ message: { role: "assistant", content } }], usage: extra.usage };
+    }
+}
+
+// ==================== HELPERS ====================
+
+function lowerCaseKeys(headers: Record<string, string> = {}): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.keys(headers).forEach(k => result[k.toLowerCase()] = headers[k]);
+    return result;
+}
+
+function abortError(): Error {
+    const error = new Error("The operation was aborted");
+    error.name = "AbortError";
+    return error;
+}
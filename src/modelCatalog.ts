@@ -0,0 +1,145 @@
+/*
+ * MODEL CATALOG
+ * Persistent cache of the OpenRouter model list (merged with models from
+ * additional backends) with capability metadata.
+ * Served from disk when offline, refreshed in the background once stale.
+ */
+
+import { DataAdapter } from "obsidian";
+import { ModelInfo } from "./main";
+import { Transport, buildHeaders } from "./transport";
+import { BackendConfig, toCatalogModel, trimBaseUrl } from "./backends";
+
+const MODELS_URL = "https://openrouter.ai/api/v1/models";
+
+interface CatalogFile {
+    fetchedAt: number;
+    models: ModelInfo[];
+}
+
+// ==================== CATALOG ====================
+
+export class ModelCatalog {
+    private adapter: DataAdapter;
+    private path: string;
+    private getTransport: () => Transport;
+    private getBackends: () => BackendConfig[];
+    private getTtlMs: () => number;
+    private onUpdate: (models: ModelInfo[]) => void;
+    private models: ModelInfo[] = [];
+    private byId = new Map<string, ModelInfo>();
+    private fetchedAt = 0;
+    private pending: Promise<ModelInfo[]> | null = null;
+
+    constructor(
+        adapter: DataAdapter,
+        path: string,
+        getTransport: () => Transport,
+        getBackends: () => BackendConfig[],
+        getTtlMs: () => number,
+        onUpdate: (models: ModelInfo[]) => void
+    ) {
+        this.adapter = adapter;
+        this.path = path;
+        this.getTransport = getTransport;
+        this.getBackends = getBackends;
+        this.getTtlMs = getTtlMs;
+        this.onUpdate = onUpdate;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const data: CatalogFile = JSON.parse(await this.adapter.read(this.path));
+                if (Array.isArray(data?.models)) this.setModels(data.models, data.fetchedAt || 0);
+            }
+        } catch (e) {
+            console.error("Failed to load model catalog", e);
+        }
+    }
+
+    listModels(): ModelInfo[] {
+        return this.models;
+    }
+
+    getModelInfo(id: string): ModelInfo | undefined {
+        return this.byId.get(id);
+    }
+
+    getFetchedAt(): number {
+        return this.fetchedAt;
+    }
+
+    isStale(): boolean {
+        return Date.now() - this.fetchedAt > this.getTtlMs();
+    }
+
+    /**
+     * Returns cached models right away, starting a background refresh if stale.
+     * Only waits for the network when nothing is cached yet.
+     */
+    async ensureFresh(): Promise<ModelInfo[]> {
+        if (this.models.length === 0) return this.refresh();
+        if (this.isStale()) this.refresh();
+        return this.models;
+    }
+
+    /**
+     * Fetches OpenRouter and every enabled backend (concurrent calls share one request).
+     * A source that fails keeps its previously cached models.
+     */
+    refresh(): Promise<ModelInfo[]> {
+        if (this.pending) return this.pending;
+
+        const backends = this.getBackends().filter(b => b.enabled && b.capabilities.models);
+        const sources: Promise<ModelInfo[] | null>[] = [
+            this.fetchSource(MODELS_URL, undefined, raw => raw),
+            ...backends.map(b => this.fetchSource(
+                `${trimBaseUrl(b.baseUrl)}/models`,
+                b.apiKey ? buildHeaders(b.apiKey) : undefined,
+                raw => toCatalogModel(b, raw)
+            ))
+        ];
+
+        this.pending = Promise.all(sources)
+            .then(async ([openRouter, ...fromBackends]) => {
+                const merged = openRouter || this.models.filter(m => !m.backend);
+                backends.forEach((b, i) => {
+                    merged.push(...(fromBackends[i] || this.models.filter(m => m.backend === b.id)));
+                });
+
+                if (openRouter || fromBackends.some(Boolean)) {
+                    this.setModels(merged, Date.now());
+                    await this.adapter.write(this.path, JSON.stringify({ fetchedAt: this.fetchedAt, models: merged }));
+                }
+                this.pending = null;
+                return this.models;
+            })
+            .catch(e => {
+                console.warn("Failed to refresh model catalog, using cache", e);
+                this.pending = null;
+                return this.models;
+            });
+
+        return this.pending;
+    }
+
+    private async fetchSource(url: string, headers: Record<string, string> | undefined, map: (raw: any) => ModelInfo): Promise<ModelInfo[] | null> {
+        try {
+            const response = await this.getTransport().request({ url, method: "GET", headers });
+            const data = response.json?.data;
+            if (response.status !== 200 || !Array.isArray(data) || data.length === 0) return null;
+            return data.map(map);
+        } catch (e) {
+            console.warn("Failed to fetch models from", url, e);
+            return null;
+        }
+    }
+
+    private setModels(models: ModelInfo[], fetchedAt: number): void {
+        this.models = models;
+        this.fetchedAt = fetchedAt;
+        this.byId = new Map(models.map(m => [m.id, m]));
+        this.onUpdate(models);
+    }
+}
@@ -3,7 +3,7 @@
  * Visual model browser with filters, favorites, and drag-drop
  */
 
-import { Modal, App, Notice, requestUrl, setIcon } from "obsidian";
+import { Modal, App, Notice, setIcon } from "obsidian";
 import OpenRouterProvider, { ModelInfo, OpenRouterSettings } from "./main";
 
 interface Filters {
@@ -51,7 +51,7 @@ export class ModelSelectorModal extends Modal {
     async onOpen(): Promise<void> {
         this.modalEl.addClass('or-modal');
 
-        this.plugin.fetchCredits().then(c => {
+        this.plugin.fetchCredits(this.plugin.getProfile(this.pluginId).id).then(c => {
             this.balance = c ? `$${c}` : 'Unknown';
             if (this.balanceEl) this.balanceEl.setText(`Balance: ${this.balance}`);
         });
@@ -100,7 +100,10 @@ export class ModelSelectorModal extends Modal {
             { label: 'Anthropic', value: 'anthropic' },
             { label: 'Google', value: 'google' },
             { label: 'Mistral', value: 'mistral' },
-            { label: 'Meta (Llama)', value: 'meta' }
+            { label: 'Meta (Llama)', value: 'meta' },
+            ...this.plugin.getBackends()
+                .filter(b => b.enabled)
+                .map(b => ({ label: b.name, value: `${b.prefix}/` }))
         ], 'provider', false);
 
         // Context
@@ -182,21 +185,17 @@ export class ModelSelectorModal extends Modal {
     }
 
     async fetchModels(): Promise<void> {
-        try {
-            const response = await requestUrl({
-                url: "https://openrouter.ai/api/v1/models",
-                method: "GET"
-            });
+        // Show the cached catalog right away, refresh in the background if stale
+        this.models = await this.plugin.catalog.ensureFresh();
+        if (this.models.length === 0) {
+            new Notice("Failed to fetch models");
+            return;
+        }
+        this.applyFilters();
 
-            if (response.status === 200) {
-                this.models = (response.json as any).data;
-                this.applyFilters();
-            } else {
-                new Notice("Failed to fetch models");
-            }
-        } catch (e: any) {
-            console.error(e);
-            new Notice("Error fetching models: " + e.message);
+        if (this.plugin.catalog.isStale()) {
+            this.models = await this.plugin.refreshModels();
+            this.applyFilters();
         }
     }
 
@@ -205,8 +204,7 @@ export class ModelSelectorModal extends Modal {
             if (this.filters.search && !m.id.toLowerCase().includes(this.filters.search) && !m.name.toLowerCase().includes(this.filters.search)) return false;
 
             if (this.filters.modality === "image") {
-                const isVision = m.id.includes("vision") || m.id.includes("gpt-4-turbo") || m.id.includes("claude-3");
-                if (!isVision) return false;
+                if (!supportsImages(m)) return false;
             }
 
             if (this.filters.provider.length > 0) {
@@ -251,9 +249,12 @@ export class ModelSelectorModal extends Modal {
 
             const nameRow = info.createDiv({ cls: 'or-model-name' });
             nameRow.createSpan({ text: m.name });
-            if (m.id.includes('vision') || m.id.includes('gemini') || m.id.includes('claude-3')) {
+            if (supportsImages(m)) {
                 nameRow.createSpan({ text: '👁️', attr: { title: 'Multimodal' } });
             }
+            if (m.supported_parameters?.includes('tools')) {
+                nameRow.createSpan({ text: '🛠️', attr: { title: 'Tool calling' } });
+            }
 
             const meta = info.createDiv({ cls: 'or-model-meta' });
             meta.createSpan({ text: m.context_length ? Math.round(m.context_length / 1000) + 'k' : '?' });
@@ -267,6 +268,7 @@ export class ModelSelectorModal extends Modal {
             }
 
             info.createDiv({ text: m.id, cls: 'or-model-id' });
+            if (m.description) card.setAttribute('title', m.description);
 
             info.addEventListener('click', () => this.selectModel(m.id));
 
@@ -300,11 +302,30 @@ export class ModelSelectorModal extends Modal {
             const info = item.createDiv();
             info.createDiv({ text: id.split('/').pop() || id, cls: 'or-saved-item-name' });
 
-            const ctxLen = this.plugin.settings.modelContextLengths?.[id];
+            const ctxLen = this.plugin.getContextLength(id);
             if (ctxLen) {
                 info.createDiv({ text: `📏 ${Math.round(ctxLen / 1000)}k`, cls: 'or-saved-item-ctx' });
             }
 
+            // Fallback chain toggle (only when choosing for a specific plugin)
+            if (this.pluginId && this.pluginId !== 'settings') {
+                const position = this.plugin.getFallbacks(this.pluginId).indexOf(id);
+                const fallback = item.createDiv({
+                    cls: 'or-saved-item-fallback clickable-icon' + (position >= 0 ? ' is-active' : ''),
+                    attr: { 'aria-label': position >= 0 ? `Fallback #${position + 1} (click to remove)` : 'Add as fallback' }
+                });
+                if (position >= 0) {
+                    fallback.setText(`#${position + 1}`);
+                } else {
+                    setIcon(fallback, 'list-plus');
+                }
+
+                fallback.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    this.toggleFallback(id);
+                });
+            }
+
             const remove = item.createDiv({ cls: 'or-saved-item-remove clickable-icon', attr: { 'aria-label': 'Remove' } });
             setIcon(remove, 'cross');
 
@@ -337,6 +358,14 @@ export class ModelSelectorModal extends Modal {
         new Notice(this.favorites.includes(id) ? "Saved model" : "Removed model");
     }
 
+    async toggleFallback(id: string): Promise<void> {
+        const fallbacks = this.plugin.getFallbacks(this.pluginId);
+        const updated = fallbacks.includes(id) ? fallbacks.filter(x => x !== id) : [...fallbacks, id];
+        await this.plugin.setFallbacks(this.pluginId, updated);
+        this.renderSaved();
+        new Notice(updated.includes(id) ? `Added fallback #${updated.length}` : "Removed fallback");
+    }
+
     selectModel(id: string): void {
         console.log("selectModel called:", id, "pluginId:", this.pluginId);
         this.plugin.setModel(this.pluginId, id);
@@ -350,3 +379,7 @@ export class ModelSelectorModal extends Modal {
         this.modalEl.removeClass('or-modal');
     }
 }
+
+function supportsImages(m: ModelInfo): boolean {
+    return m.architecture?.input_modalities?.includes('image') || false;
+}
@@ -0,0 +1,69 @@
+/*
+ * PARAMETER PRESETS
+ * Named generation settings (temperature, max_tokens, system prompt,
+ * provider routing) assigned per plugin and merged into its requests
+ */
+
+import { ChatMessage, RequestBody } from "./main";
+
+// ==================== TYPES ====================
+/** OpenRouter's `provider` request field (subset) */
+export interface ProviderRouting {
+    /** Provider names to try in order, e.g. ["Anthropic", "Together"] */
+    order?: string[];
+    allow_fallbacks?: boolean;
+    sort?: "price" | "throughput" | "latency";
+    data_collection?: "allow" | "deny";
+}
+
+export interface ParameterPreset {
+    id: string;
+    name: string;
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    stop?: string[];
+    /** Prepended to the request's system prompt (added as one if there is none) */
+    systemPrompt?: string;
+    provider?: ProviderRouting;
+}
+
+const SAMPLING_FIELDS: ("temperature" | "top_p" | "max_tokens" | "stop")[] = ["temperature", "top_p", "max_tokens", "stop"];
+
+// ==================== MERGE ====================
+
+/**
+ * Returns a copy of the body with the preset applied. Fields the consumer set win;
+ * provider routing is only sent to OpenRouter.
+ */
+export function applyPreset(body: RequestBody, preset: ParameterPreset, openRouter: boolean): RequestBody {
+    const result: RequestBody = { ...body };
+
+    SAMPLING_FIELDS.forEach(field => {
+        const value = preset[field];
+        const empty = value === undefined || (Array.isArray(value) && value.length === 0);
+        if (!empty && result[field] === undefined) result[field] = value;
+    });
+
+    if (openRouter && preset.provider && Object.keys(preset.provider).length > 0) {
+        result.provider = { ...preset.provider, ...(body.provider as ProviderRouting || {}) };
+    }
+
+    if (preset.systemPrompt) {
+        result.messages = prependSystemPrompt(body.messages, preset.systemPrompt);
+    }
+
+    return result;
+}
+
+function prependSystemPrompt(messages: ChatMessage[], prefix: string): ChatMessage[] {
+    const first = messages[0];
+    if (first?.role !== "system") {
+        return [{ role: "system", content: prefix }, ...messages];
+    }
+
+    const content = typeof first.content === "string" || first.content === null
+        ? `${prefix}\n\n${first.content || ""}`.trim()
+        : [{ type: "text" as const, text: prefix }, ...first.content];
+    return [{ ...first, content }, ...messages.slice(1)];
+}
@@ -0,0 +1,146 @@
+/*
+ * REQUEST LOG
+ * Size-bounded ring buffer of recent requests from all consumers,
+ * feeding the request inspector view. API keys are redacted.
+ */
+
+// ==================== TYPES ====================
+export type RequestLogStatus = "pending" | "success" | "error" | "aborted";
+
+export interface RequestLogEntry {
+    id: number;
+    pluginId: string;
+    model: string;
+    url: string;
+    stream: boolean;
+    /** Request body as sent (last attempt) */
+    body: any;
+    /** Body as the consumer passed it, before presets, reasoning defaults and context fitting */
+    originalBody: any;
+    /** Request headers with the API key redacted */
+    headers: Record<string, string>;
+    startTime: number;
+    endTime: number | null;
+    /** Number of attempts, including rate-limit retries and fallbacks */
+    attempts: number;
+    httpStatus: number | null;
+    status: RequestLogStatus;
+    /** Streamed text chunks, capped at MAX_CHUNKS */
+    chunks: string[];
+    reasoning: string;
+    /** Final JSON response (non-streaming) */
+    response: any;
+    error: string | null;
+}
+
+const MAX_CHUNKS = 2000;
+
+// ==================== LOG ====================
+
+export class RequestLog {
+    private entries: RequestLogEntry[] = [];
+    private nextId = 1;
+    private getCapacity: () => number;
+    private listeners = new Set<() => void>();
+
+    constructor(getCapacity: () => number) {
+        this.getCapacity = getCapacity;
+    }
+
+    start(pluginId: string | undefined, model: string, stream: boolean, body: any, originalBody: any = body): RequestLogEntry {
+        const entry: RequestLogEntry = {
+            id: this.nextId++,
+            pluginId: pluginId || "unknown",
+            model,
+            url: "",
+            stream,
+            body,
+            originalBody,
+            headers: {},
+            startTime: Date.now(),
+            endTime: null,
+            attempts: 0,
+            httpStatus: null,
+            status: "pending",
+            chunks: [],
+            reasoning: "",
+            response: null,
+            error: null
+        };
+        this.entries.push(entry);
+        const capacity = Math.max(1, this.getCapacity());
+        if (this.entries.length > capacity) this.entries.splice(0, this.entries.length - capacity);
+        this.notify();
+        return entry;
+    }
+
+    /** Records one attempt (first try, retry or fallback model) */
+    attempt(entry: RequestLogEntry, url: string, model: string, headers: Record<string, string>, body: any): void {
+        entry.attempts++;
+        entry.url = url;
+        entry.model = model;
+        entry.headers = redactHeaders(headers);
+        entry.body = body;
+        this.notify();
+    }
+
+    chunk(entry: RequestLogEntry, text: string): void {
+        if (entry.chunks.length < MAX_CHUNKS) entry.chunks.push(text);
+        this.notify();
+    }
+
+    reasoning(entry: RequestLogEntry, text: string): void {
+        entry.reasoning += text;
+        this.notify();
+    }
+
+    finish(entry: RequestLogEntry, status: RequestLogStatus, details: { httpStatus?: number | null; response?: any; error?: any } = {}): void {
+        entry.status = status;
+        entry.endTime = Date.now();
+        if (details.httpStatus !== undefined) entry.httpStatus = details.httpStatus;
+        if (details.response !== undefined) entry.response = details.response;
+        if (details.error) entry.error = details.error?.message || String(details.error);
+        this.notify();
+    }
+
+    /** Newest first */
+    list(): RequestLogEntry[] {
+        return [...this.entries].reverse();
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.notify();
+    }
+
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify(): void {
+        this.listeners.forEach(l => l());
+    }
+}
+
+// ==================== HELPERS ====================
+
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.keys(headers).forEach(k => {
+        result[k] = k.toLowerCase() === "authorization" ? "Bearer [REDACTED]" : headers[k];
+    });
+    return result;
+}
+
+/** curl command for the entry; the key is left as $OPENROUTER_API_KEY */
+export function toCurl(entry: RequestLogEntry): string {
+    const body = entry.stream ? { ...entry.body, stream: true } : entry.body;
+    const lines = [`curl -X POST '${entry.url}'`];
+    Object.keys(entry.headers).forEach(k => {
+        const value = k.toLowerCase() === "authorization" ? "Bearer $OPENROUTER_API_KEY" : entry.headers[k];
+        lines.push(`  -H "${k}: ${value}"`);
+    });
+    lines.push(`  --data-raw '${JSON.stringify(body).replace(/'/g, "'\\''")}'`);
+    return lines.join(" \\\n");
+}
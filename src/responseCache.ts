@@ -0,0 +1,153 @@
+/*
+ * RESPONSE CACHE
+ * Opt-in per plugin. Identical request bodies are answered from disk
+ * (cache.json in the plugin folder) until the entry expires.
+ */
+
+import { DataAdapter, debounce } from "obsidian";
+
+// ==================== TYPES ====================
+export interface CacheSettings {
+    /** Plugins whose requests may be served from the cache */
+    cachePlugins: { [pluginId: string]: boolean };
+    cacheTtlHours: number;
+    cacheMaxEntries: number;
+}
+
+export interface CacheEntry {
+    key: string;
+    model: string;
+    createdAt: number;
+    lastUsed: number;
+    /** Assistant text, replayed through onToken for streams */
+    text: string;
+    /** Chat completion body returned to fetchWithRetry */
+    response: any;
+}
+
+export interface CacheStats {
+    entries: number;
+    hits: number;
+    misses: number;
+}
+
+/** Request fields that do not change the answer */
+const IGNORED_FIELDS = ["stream", "usage"];
+
+// ==================== CACHE ====================
+
+export class ResponseCache {
+    private adapter: DataAdapter;
+    private path: string;
+    private getSettings: () => CacheSettings;
+    private entries: { [key: string]: CacheEntry } = {};
+    private hits = 0;
+    private misses = 0;
+
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(adapter: DataAdapter, path: string, getSettings: () => CacheSettings) {
+        this.adapter = adapter;
+        this.path = path;
+        this.getSettings = getSettings;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.adapter.read(this.path));
+                this.entries = data?.entries || {};
+                this.hits = data?.hits || 0;
+                this.misses = data?.misses || 0;
+            }
+        } catch (e) {
+            console.error("Failed to load response cache", e);
+            this.entries = {};
+        }
+    }
+
+    async save(): Promise<void> {
+        try {
+            await this.adapter.write(this.path, JSON.stringify({ entries: this.entries, hits: this.hits, misses: this.misses }));
+        } catch (e) {
+            console.error("Failed to save response cache", e);
+        }
+    }
+
+    isEnabled(pluginId?: string): boolean {
+        return !!pluginId && !!this.getSettings().cachePlugins[pluginId];
+    }
+
+    /** Only deterministic requests (temperature 0 or a fixed seed) are read from or written to the cache */
+    accepts(pluginId: string | undefined, body: { [key: string]: unknown }): boolean {
+        return this.isEnabled(pluginId) && (body.temperature === 0 || typeof body.seed === "number");
+    }
+
+    /** SHA-256 of the body with sorted keys and transport-only fields removed */
+    async keyFor(body: object): Promise<string> {
+        const normalized: { [key: string]: unknown } = { ...body };
+        IGNORED_FIELDS.forEach(f => delete normalized[f]);
+        const bytes = new TextEncoder().encode(stableStringify(normalized));
+        const digest = await crypto.subtle.digest("SHA-256", bytes);
+        return Array.from(new Uint8Array(digest)).map(b => ("0" + b.toString(16)).slice(-2)).join("");
+    }
+
+    /** Fresh entry for the key, counting a hit or a miss */
+    get(key: string): CacheEntry | null {
+        const entry = this.entries[key];
+        const ttlMs = this.getSettings().cacheTtlHours * 3600 * 1000;
+
+        if (entry && Date.now() - entry.createdAt > ttlMs) {
+            delete this.entries[key];
+        } else if (entry) {
+            entry.lastUsed = Date.now();
+            this.hits++;
+            this.requestSave();
+            return entry;
+        }
+
+        this.misses++;
+        this.requestSave();
+        return null;
+    }
+
+    set(key: string, model: string, text: string, response: any): void {
+        const now = Date.now();
+        this.entries[key] = { key, model, createdAt: now, lastUsed: now, text, response };
+
+        // Evict least recently used entries over the limit
+        const keys = Object.keys(this.entries);
+        const max = Math.max(1, this.getSettings().cacheMaxEntries);
+        if (keys.length > max) {
+            keys.sort((a, b) => this.entries[a].lastUsed - this.entries[b].lastUsed)
+                .slice(0, keys.length - max)
+                .forEach(k => delete this.entries[k]);
+        }
+        this.requestSave();
+    }
+
+    getStats(): CacheStats {
+        return { entries: Object.keys(this.entries).length, hits: this.hits, misses: this.misses };
+    }
+
+    async clear(): Promise<void> {
+        this.entries = {};
+        this.hits = 0;
+        this.misses = 0;
+        await this.save();
+    }
+}
+
+// ==================== HELPERS ====================
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+    if (value && typeof value === "object") {
+        const obj = value as { [key: string]: unknown };
+        return `{${Object.keys(obj).sort()
+            .filter(k => obj[k] !== undefined)
+            .map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+            .join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
@@ -0,0 +1,192 @@
+/*
+ * REQUEST SCHEDULER
+ * Shared queue for all outgoing requests: max concurrency, priorities,
+ * round-robin fairness between plugins and a global pause on 429
+ */
+
+// ==================== TYPES ====================
+export type RequestPriority = "interactive" | "batch";
+
+export interface QueueStats {
+    queued: number;
+    running: number;
+    paused: boolean;
+}
+
+interface QueuedJob {
+    pluginId: string;
+    priority: RequestPriority;
+    seq: number;
+    start: () => void;
+    /** Rejects the waiting acquire() with an AbortError */
+    cancel: () => void;
+}
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+// ==================== SCHEDULER ====================
+
+export class RequestScheduler {
+    private getMaxConcurrency: () => number;
+    private onChange: (stats: QueueStats) => void;
+    private queue: QueuedJob[] = [];
+    private running = 0;
+    private seq = 0;
+    /** Serve counter per plugin, lowest goes next (round-robin) */
+    private lastServed = new Map<string, number>();
+    private serveCounter = 0;
+    private pausedUntil = 0;
+    private pauseTimer: number | null = null;
+    private backoffMs = BASE_BACKOFF_MS;
+
+    constructor(getMaxConcurrency: () => number, onChange: (stats: QueueStats) => void) {
+        this.getMaxConcurrency = getMaxConcurrency;
+        this.onChange = onChange;
+    }
+
+    /**
+     * Waits for a free slot and resolves with a release function.
+     * Rejects with an AbortError if the signal fires while still queued.
+     */
+    acquire(pluginId: string = "unknown", priority: RequestPriority = "interactive", signal?: AbortSignal): Promise<() => void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(abortError());
+                return;
+            }
+
+            const onAbort = () => {
+                const idx = this.queue.indexOf(job);
+                if (idx < 0) return;
+                this.queue.splice(idx, 1);
+                this.notify();
+                reject(abortError());
+            };
+
+            const job: QueuedJob = {
+                pluginId,
+                priority,
+                seq: this.seq++,
+                start: () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(this.createRelease());
+                },
+                cancel: () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    reject(abortError());
+                }
+            };
+
+            signal?.addEventListener("abort", onAbort);
+            this.queue.push(job);
+            this.drain();
+        });
+    }
+
+    /** Pauses the whole queue after a 429, returns the wait in ms */
+    rateLimited(retryAfterMs?: number): number {
+        const wait = retryAfterMs && retryAfterMs > 0 ? retryAfterMs : this.backoffMs;
+        this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS);
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+        this.drain();
+        return wait;
+    }
+
+    /** Resets the shared backoff once a request gets through */
+    reportSuccess(): void {
+        this.backoffMs = BASE_BACKOFF_MS;
+    }
+
+    getStats(): QueueStats {
+        return {
+            queued: this.queue.length,
+            running: this.running,
+            paused: this.pausedUntil > Date.now()
+        };
+    }
+
+    /** Cancels all waiting requests with an AbortError (used on unload) */
+    clear(): void {
+        if (this.pauseTimer !== null) window.clearTimeout(this.pauseTimer);
+        this.pauseTimer = null;
+        const jobs = this.queue;
+        this.queue = [];
+        jobs.forEach(job => job.cancel());
+        this.notify();
+    }
+
+    private createRelease(): () => void {
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            this.running--;
+            this.drain();
+        };
+    }
+
+    private drain(): void {
+        const wait = this.pausedUntil - Date.now();
+        if (wait > 0) {
+            if (this.pauseTimer === null) {
+                this.pauseTimer = window.setTimeout(() => {
+                    this.pauseTimer = null;
+                    this.drain();
+                }, wait);
+            }
+            this.notify();
+            return;
+        }
+
+        const max = Math.max(1, this.getMaxConcurrency());
+        while (this.running < max && this.queue.length > 0) {
+            const job = this.pickNext();
+            this.queue.splice(this.queue.indexOf(job), 1);
+            this.running++;
+            this.lastServed.set(job.pluginId, ++this.serveCounter);
+            job.start();
+        }
+        this.notify();
+    }
+
+    /** Highest priority first, then the plugin served least recently, then FIFO */
+    private pickNext(): QueuedJob {
+        const priority: RequestPriority = this.queue.some(j => j.priority === "interactive") ? "interactive" : "batch";
+        let best: QueuedJob | null = null;
+
+        for (const job of this.queue) {
+            if (job.priority !== priority) continue;
+            if (!best) {
+                best = job;
+                continue;
+            }
+            const served = this.lastServed.get(job.pluginId) || 0;
+            const bestServed = this.lastServed.get(best.pluginId) || 0;
+            if (served < bestServed || (served === bestServed && job.seq < best.seq)) best = job;
+        }
+
+        return best as QueuedJob;
+    }
+
+    private notify(): void {
+        this.onChange(this.getStats());
+    }
+}
+
+// ==================== HELPERS ====================
+
+/** Parses a Retry-After header (seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function abortError(): Error {
+    const error = new Error("Request cancelled while queued");
+    error.name = "AbortError";
+    return error;
+}
@@ -3,11 +3,19 @@
  * Settings UI for API key, favorites, and plugin assignments
  */
 
-import { App, PluginSettingTab, Setting, Notice, setIcon } from "obsidian";
-import OpenRouterProvider from "./main";
+import { App, PluginSettingTab, Setting, Notice, setIcon, debounce } from "obsidian";
+import OpenRouterProvider, { ReasoningOptions } from "./main";
+import { UsageGroupBy, UsagePeriod, dayKey } from "./usageLedger";
+import { BudgetLimits } from "./budget";
+import { BACKEND_PRESETS, BackendConfig } from "./backends";
+import { ContextStrategy } from "./contextWindow";
+import { ParameterPreset, ProviderRouting } from "./presets";
 
 export class OpenRouterSettingTab extends PluginSettingTab {
     plugin: OpenRouterProvider;
+    usageGroupBy: UsageGroupBy = 'plugin';
+    usagePeriod: UsagePeriod = 'day';
+    private unsubscribers: (() => void)[] = [];
 
     constructor(app: App, plugin: OpenRouterProvider) {
         super(app, plugin);
@@ -18,65 +26,217 @@ export class OpenRouterSettingTab extends PluginSettingTab {
         const { containerEl } = this;
         containerEl.empty();
         containerEl.addClass('or-settings');
+        this.subscribe();
 
         // ===== HEADER =====
         containerEl.createEl('h2', { text: 'OpenRouter Provider' });
 
-        // ===== API KEY =====
-        this.createSection(containerEl, 'API Key', 'key', (content) => {
+        // ===== API KEYS =====
+        this.createSection(containerEl, 'API Keys', 'key', (content) => {
+            const profiles = this.plugin.getProfiles();
+
+            profiles.forEach(profile => {
+                const isDefault = profile.id === this.plugin.settings.defaultProfileId;
+                const header = content.createDiv({ cls: 'or-debug-label' });
+                header.setText(isDefault ? `${profile.name} (default)` : profile.name);
+
+                new Setting(content)
+                    .setName('Name')
+                    .addText(t => t
+                        .setValue(profile.name)
+                        .onChange(async v => {
+                            profile.name = v || profile.id;
+                            header.setText(isDefault ? `${profile.name} (default)` : profile.name);
+                            await this.plugin.saveSettings();
+                        }))
+                    .addExtraButton(b => b
+                        .setIcon('star')
+                        .setTooltip('Use as default')
+                        .setDisabled(isDefault)
+                        .onClick(async () => {
+                            this.plugin.settings.defaultProfileId = profile.id;
+                            await this.plugin.saveSettings();
+                            this.plugin.events.emit('key-changed', { profileId: profile.id });
+                            this.display();
+                        }))
+                    .addExtraButton(b => b
+                        .setIcon('trash')
+                        .setTooltip('Delete profile')
+                        .setDisabled(profiles.length <= 1)
+                        .onClick(async () => {
+                            if (profiles.length <= 1) return;
+                            this.plugin.settings.keyProfiles = profiles.filter(p => p.id !== profile.id);
+                            if (isDefault) this.plugin.settings.defaultProfileId = this.plugin.settings.keyProfiles[0].id;
+                            Object.keys(this.plugin.settings.pluginProfiles).forEach(id => {
+                                if (this.plugin.settings.pluginProfiles[id] === profile.id) delete this.plugin.settings.pluginProfiles[id];
+                            });
+                            await this.plugin.saveSettings();
+                            this.plugin.events.emit('key-changed', { profileId: profile.id });
+                            this.display();
+                        }));
+
+                new Setting(content)
+                    .setName('API Key')
+                    .setDesc(isDefault ? 'Used by every plugin without its own profile' : 'Used by the plugins assigned to this profile')
+                    .addText(t => t
+                        .setPlaceholder('sk-or-...')
+                        .setValue(profile.apiKey)
+                        .onChange(async v => {
+                            profile.apiKey = v;
+                            await this.plugin.saveSettings();
+                            this.plugin.events.emit('key-changed', { profileId: profile.id });
+                        }));
+
+                new Setting(content)
+                    .setName('Base URL')
+                    .setDesc('Optional, leave empty for OpenRouter')
+                    .addText(t => t
+                        .setPlaceholder('https://openrouter.ai/api/v1')
+                        .setValue(profile.baseUrl || '')
+                        .onChange(async v => {
+                            profile.baseUrl = v.trim() || undefined;
+                            await this.plugin.saveSettings();
+                            this.plugin.events.emit('key-changed', { profileId: profile.id });
+                        }));
+
+                const balanceContainer = content.createDiv({ cls: 'or-settings-balance' });
+                balanceContainer.setText("Checking balance...");
+                this.plugin.fetchCredits(profile.id).then(c => {
+                    balanceContainer.empty();
+                    const icon = balanceContainer.createSpan({ cls: 'or-balance-icon' });
+                    setIcon(icon, 'wallet');
+                    balanceContainer.createSpan({ text: c ? `Balance: $${c}` : "Balance: Unknown" });
+                });
+            });
+
+            const btnContainer = content.createDiv({ cls: 'or-settings-btn-container' });
+            const addBtn = btnContainer.createEl('button', { text: 'Add Key Profile' });
+            addBtn.addEventListener('click', async () => {
+                const id = `profile-${Date.now().toString(36)}`;
+                this.plugin.settings.keyProfiles.push({ id, name: `Profile ${profiles.length + 1}`, apiKey: '' });
+                await this.plugin.saveSettings();
+                this.display();
+            });
+        });
+
+        // ===== BACKENDS (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Additional Backends', 'server', false, (content) => {
+            content.createDiv({
+                text: 'OpenAI-compatible endpoints such as Ollama or LM Studio. Their models appear in the catalog as "<prefix>/<model>" and requests for them are routed by that prefix.',
+                cls: 'or-text-muted'
+            });
+
+            this.plugin.getBackends().forEach(backend => this.renderBackend(content, backend));
+
             new Setting(content)
-                .setName('API Key')
-                .setDesc('Your OpenRouter API key (shared across all AI plugins)')
-                .addText(t => t
-                    .setPlaceholder('sk-or-...')
-                    .setValue(this.plugin.settings.apiKey)
+                .setName('Add backend')
+                .addDropdown(d => {
+                    d.addOption('', 'Choose a preset...');
+                    Object.keys(BACKEND_PRESETS).forEach(name => d.addOption(name, name));
+                    d.onChange(async v => {
+                        if (!v) return;
+                        const preset = BACKEND_PRESETS[v];
+                        this.plugin.settings.backends.push({
+                            ...preset,
+                            id: `backend-${Date.now().toString(36)}`,
+                            capabilities: { ...preset.capabilities }
+                        });
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+                });
+        });
+
+        // ===== REQUEST QUEUE =====
+        this.createSection(containerEl, 'Request Queue', 'list-ordered', (content) => {
+            new Setting(content)
+                .setName('Max concurrent requests')
+                .setDesc('Requests beyond this limit wait in a shared queue. Interactive requests go ahead of batch jobs.')
+                .addSlider(sl => sl
+                    .setLimits(1, 10, 1)
+                    .setValue(this.plugin.settings.maxConcurrentRequests)
+                    .setDynamicTooltip()
+                    .onChange(async v => {
+                        this.plugin.settings.maxConcurrentRequests = v;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(content)
+                .setName('Context window overflow')
+                .setDesc('When a prompt plus max_tokens is larger than the model\'s context window')
+                .addDropdown(d => d
+                    .addOption('error', 'Fail before sending')
+                    .addOption('trim-oldest', 'Drop oldest messages')
+                    .addOption('truncate-last', 'Shorten last user message')
+                    .addOption('middle-out', 'OpenRouter middle-out transform')
+                    .setValue(this.plugin.settings.contextStrategy)
                     .onChange(async v => {
-                        this.plugin.settings.apiKey = v;
+                        this.plugin.settings.contextStrategy = v as ContextStrategy;
                         await this.plugin.saveSettings();
                     }));
 
-            const balanceContainer = content.createDiv({ cls: 'or-settings-balance' });
-            balanceContainer.setText("Checking balance...");
-            this.plugin.fetchCredits().then(c => {
-                balanceContainer.empty();
-                const icon = balanceContainer.createSpan({ cls: 'or-balance-icon' });
-                setIcon(icon, 'wallet');
-                balanceContainer.createSpan({ text: c ? `Balance: $${c}` : "Balance: Unknown" });
+            const stats = this.plugin.getQueueStats();
+            content.createDiv({
+                text: `${stats.running} running, ${stats.queued} queued${stats.paused ? ' (paused after rate limit)' : ''}`,
+                cls: 'or-text-muted'
             });
         });
 
         // ===== CONNECTED PLUGINS =====
         this.createSection(containerEl, 'Connected Plugins', 'plug', (content) => {
-            const aiPlugins = [
-                { id: 'ai-ocr-formatter', name: 'AI OCR Formatter' },
-                { id: 'ai-flashcards', name: 'AI Flashcards' },
-                { id: 'lecture-slides', name: 'Lecture Slides' }
-            ];
-
-            const pluginModels = this.plugin.settings.pluginModels || {};
-            let hasAnyPlugin = false;
+            const consumers = this.plugin.getConsumers();
 
-            aiPlugins.forEach(({ id, name }) => {
-                const pluginInstance = (this.app as any).plugins.getPlugin(id);
-                if (!pluginInstance) return;
-                hasAnyPlugin = true;
+            consumers.forEach(({ record, active }) => {
+                const info = active ? this.plugin.consumers.get(record.id) || record : record;
 
                 const row = content.createDiv({ cls: 'or-settings-plugin-row' });
                 const left = row.createDiv({ cls: 'or-settings-plugin-info' });
-                const statusIcon = left.createSpan({ cls: 'or-status-icon connected' });
-                setIcon(statusIcon, 'check-circle');
-                left.createSpan({ text: name, cls: 'or-settings-plugin-name' });
+                const statusIcon = left.createSpan({ cls: `or-status-icon ${active ? 'connected' : 'inactive'}` });
+                setIcon(statusIcon, active ? 'check-circle' : 'circle-dashed');
+                statusIcon.setAttribute('aria-label', active ? 'Loaded' : 'Not loaded');
+                const nameEl = left.createSpan({ text: info.name, cls: 'or-settings-plugin-name' });
+                if (info.description) nameEl.setAttribute('title', info.description);
 
                 const right = row.createDiv({ cls: 'or-settings-plugin-model' });
-                const modelId = pluginModels[id];
-                if (modelId) {
-                    right.createSpan({ text: modelId.split('/').pop() || modelId });
-                } else {
-                    right.createSpan({ text: 'No model set', cls: 'or-text-muted' });
+                const modelId = this.plugin.getModel(record.id);
+                right.createSpan({
+                    text: modelId.split('/').pop() || modelId,
+                    cls: this.plugin.settings.pluginModels[record.id] ? '' : 'or-text-muted'
+                });
+
+                const missing = this.plugin.getMissingCapabilities(modelId, info.requiredCapabilities);
+                if (missing.length > 0) {
+                    const warn = right.createSpan({ cls: 'or-status-icon warning' });
+                    setIcon(warn, 'alert-triangle');
+                    warn.setAttribute('aria-label', `Model lacks: ${missing.join(', ')}`);
+                }
+
+                const profiles = this.plugin.getProfiles();
+                if (profiles.length > 1) {
+                    const select = right.createEl('select', { cls: 'dropdown or-profile-select', attr: { 'aria-label': 'Key profile' } });
+                    select.createEl('option', { text: 'Default key', value: '' });
+                    profiles.forEach(p => select.createEl('option', { text: p.name, value: p.id }));
+                    select.value = this.plugin.settings.pluginProfiles[record.id] || '';
+                    select.addEventListener('change', () => this.plugin.setPluginProfile(record.id, select.value || null));
+                }
+
+                const change = right.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Change model' } });
+                setIcon(change, 'pencil');
+                change.addEventListener('click', () => {
+                    this.plugin.openModelSelector(record.id, () => { });
+                });
+
+                if (!active) {
+                    const forget = right.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Forget plugin' } });
+                    setIcon(forget, 'trash');
+                    forget.addEventListener('click', async () => {
+                        await this.plugin.consumers.forget(record.id);
+                        this.display();
+                    });
                 }
             });
 
-            if (!hasAnyPlugin) {
+            if (consumers.length === 0) {
                 content.createDiv({
                     text: 'No AI plugins detected',
                     cls: 'or-text-muted or-text-center'
@@ -112,9 +272,309 @@ export class OpenRouterSettingTab extends PluginSettingTab {
                 cls: 'mod-cta'
             });
             manageBtn.addEventListener('click', () => {
-                this.plugin.openModelSelector('settings', () => {
-                    this.display();
+                this.plugin.openModelSelector('settings', () => { });
+            });
+
+            const fetchedAt = this.plugin.catalog.getFetchedAt();
+            new Setting(content)
+                .setName('Model catalog')
+                .setDesc(fetchedAt
+                    ? `${this.plugin.listModels().length} models cached, updated ${new Date(fetchedAt).toLocaleString()}`
+                    : 'Not downloaded yet')
+                .addText(t => t
+                    .setPlaceholder('24')
+                    .setValue(String(this.plugin.settings.modelCacheHours))
+                    .onChange(async v => {
+                        const hours = parseFloat(v);
+                        if (isNaN(hours) || hours <= 0) return;
+                        this.plugin.settings.modelCacheHours = hours;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(b => b
+                    .setIcon('refresh-cw')
+                    .setTooltip('Refresh now')
+                    .onClick(async () => {
+                        await this.plugin.refreshModels();
+                        this.display();
+                    }));
+        });
+
+        // ===== USAGE =====
+        this.createSection(containerEl, 'Usage', 'bar-chart-2', (content) => {
+            new Setting(content)
+                .setName('Group by')
+                .addDropdown(d => d
+                    .addOption('plugin', 'Plugin')
+                    .addOption('model', 'Model')
+                    .setValue(this.usageGroupBy)
+                    .onChange(v => {
+                        this.usageGroupBy = v as UsageGroupBy;
+                        this.renderUsageTable(tableContainer);
+                    }))
+                .addDropdown(d => d
+                    .addOption('day', 'Per day')
+                    .addOption('month', 'Per month')
+                    .setValue(this.usagePeriod)
+                    .onChange(v => {
+                        this.usagePeriod = v as UsagePeriod;
+                        this.renderUsageTable(tableContainer);
+                    }));
+
+            const tableContainer = content.createDiv({ cls: 'or-usage-table-container' });
+            this.renderUsageTable(tableContainer);
+
+            const btnContainer = content.createDiv({ cls: 'or-settings-btn-container' });
+            const csvBtn = btnContainer.createEl('button', { text: 'Export CSV' });
+            csvBtn.addEventListener('click', () => this.exportUsage('csv'));
+            const jsonBtn = btnContainer.createEl('button', { text: 'Export JSON' });
+            jsonBtn.addEventListener('click', () => this.exportUsage('json'));
+            const clearBtn = btnContainer.createEl('button', { text: 'Clear', cls: 'mod-warning' });
+            clearBtn.addEventListener('click', async () => {
+                await this.plugin.usage.clear();
+                this.renderUsageTable(tableContainer);
+                new Notice('Usage history cleared');
+            });
+        });
+
+        // ===== MODEL FALLBACKS (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Model Fallbacks', 'git-branch', false, (content) => {
+            content.createDiv({
+                text: 'If a plugin\'s model is unavailable (removed, 404, 5xx), requests are retried on these models in order.',
+                cls: 'or-text-muted'
+            });
+
+            const pluginIds = this.getConsumerIds();
+            if (pluginIds.length === 0) {
+                content.createDiv({ text: 'No plugins have selected a model yet', cls: 'or-text-muted or-text-center' });
+            }
+
+            pluginIds.forEach(id => {
+                content.createDiv({ text: `${id} → ${this.plugin.getModel(id)}`, cls: 'or-debug-label' });
+                this.renderFallbackList(content.createDiv(), id);
+            });
+        });
+
+        // ===== REASONING (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Reasoning', 'brain-circuit', false, (content) => {
+            content.createDiv({
+                text: 'Defaults for reasoning models, sent with each plugin\'s requests. Values a plugin sets itself take precedence.',
+                cls: 'or-text-muted'
+            });
+
+            const pluginIds = this.getConsumerIds();
+            if (pluginIds.length === 0) {
+                content.createDiv({ text: 'No plugins have selected a model yet', cls: 'or-text-muted or-text-center' });
+            }
+
+            pluginIds.forEach(id => {
+                content.createDiv({ text: id, cls: 'or-debug-label' });
+                this.renderReasoningFields(content, id);
+            });
+        });
+
+        // ===== PARAMETER PRESETS (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Parameter Presets', 'sliders-horizontal', false, (content) => {
+            content.createDiv({
+                text: 'Named generation settings merged into a plugin\'s requests. Values a plugin sets itself take precedence; the system prompt is prepended.',
+                cls: 'or-text-muted'
+            });
+
+            const presets = this.plugin.getPresets();
+            presets.forEach(preset => this.renderPreset(content, preset));
+
+            const btnContainer = content.createDiv({ cls: 'or-settings-btn-container' });
+            const addBtn = btnContainer.createEl('button', { text: 'Add Preset' });
+            addBtn.addEventListener('click', async () => {
+                const id = `preset-${Date.now().toString(36)}`;
+                this.plugin.settings.presets.push({ id, name: `Preset ${presets.length + 1}` });
+                await this.plugin.saveSettings();
+                this.display();
+            });
+
+            if (presets.length === 0) return;
+
+            content.createDiv({ text: 'Assignments', cls: 'or-debug-label' });
+            this.getConsumerIds().forEach(id => {
+                new Setting(content)
+                    .setName(id)
+                    .addDropdown(d => {
+                        d.addOption('', 'None');
+                        presets.forEach(p => d.addOption(p.id, p.name));
+                        d.setValue(this.plugin.settings.pluginPresets[id] || '')
+                            .onChange(v => this.plugin.setPluginPreset(id, v || null));
+                    });
+            });
+        });
+
+        // ===== PROMPT TEMPLATES (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Prompt Templates', 'file-text', false, (content) => {
+            content.createDiv({
+                text: 'Markdown notes used as prompts. Frontmatter sets model, parameters and variables; the body may use {{selection}}, {{note}}, {{title}} and custom {{placeholders}}.',
+                cls: 'or-text-muted'
+            });
+
+            new Setting(content)
+                .setName('Template folder')
+                .setDesc(`${this.plugin.templates.list().length} templates found`)
+                .addText(t => t
+                    .setPlaceholder('Prompts')
+                    .setValue(this.plugin.settings.templateFolder)
+                    .onChange(async v => {
+                        this.plugin.settings.templateFolder = v.trim().replace(/\/+$/, '');
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        // ===== BALANCE MONITORING (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Balance Monitoring', 'wallet', false, (content) => {
+            const summary = new Setting(content)
+                .setName('Default key')
+                .setDesc('Checking balance...')
+                .addExtraButton(b => b
+                    .setIcon('refresh-cw')
+                    .setTooltip('Check now')
+                    .onClick(() => renderSummary()));
+            const renderSummary = () => this.plugin.getCredits().then(c => {
+                if (!c) {
+                    summary.setDesc('Balance unknown');
+                    return;
+                }
+                const key = c.keyLimit !== null && c.keyRemaining !== null
+                    ? `key limit $${c.keyRemaining.toFixed(2)} of $${c.keyLimit.toFixed(2)} left`
+                    : 'no key limit';
+                summary.setDesc(`$${c.available.toFixed(2)} available: account $${c.balance.toFixed(2)} ($${c.totalUsage.toFixed(2)} of $${c.totalCredits.toFixed(2)} used), ${key}${c.isFreeTier ? ', free tier' : ''}`);
+            });
+            renderSummary();
+
+            new Setting(content)
+                .setName('Check every (minutes)')
+                .setDesc('Background balance check of the default key. 0 turns it off.')
+                .addText(t => {
+                    // Reschedule once typing pauses, not per keystroke
+                    const reschedule = debounce(() => this.plugin.balance.schedule(), 1000, true);
+                    t.setPlaceholder('15')
+                        .setValue(String(this.plugin.settings.balancePollMinutes))
+                        .onChange(async v => {
+                            const minutes = parseFloat(v);
+                            if (isNaN(minutes) || minutes < 0) return;
+                            this.plugin.settings.balancePollMinutes = minutes;
+                            await this.plugin.saveSettings();
+                            reschedule();
+                        });
                 });
+
+            new Setting(content)
+                .setName('Show balance in status bar')
+                .addToggle(t => t
+                    .setValue(this.plugin.settings.showBalanceInStatusBar)
+                    .onChange(async v => {
+                        this.plugin.settings.showBalanceInStatusBar = v;
+                        await this.plugin.saveSettings();
+                        this.plugin.balance.refresh();
+                    }));
+
+            new Setting(content)
+                .setName('Low balance alert ($)')
+                .setDesc('Show a notice when the available balance drops below this amount. 0 turns it off.')
+                .addText(t => t
+                    .setPlaceholder('0')
+                    .setValue(String(this.plugin.settings.lowBalanceThreshold))
+                    .onChange(async v => {
+                        const amount = parseFloat(v);
+                        if (isNaN(amount) || amount < 0) return;
+                        this.plugin.settings.lowBalanceThreshold = amount;
+                        await this.plugin.saveSettings();
+                        this.plugin.balance.refresh();
+                    }));
+        });
+
+        // ===== SPENDING LIMITS (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Spending Limits', 'shield', false, (content) => {
+            new Setting(content)
+                .setName('Warning threshold')
+                .setDesc('Show a notice once this percentage of any limit is used')
+                .addSlider(sl => sl
+                    .setLimits(10, 100, 5)
+                    .setValue(Math.round(this.plugin.settings.budgetWarningThreshold * 100))
+                    .setDynamicTooltip()
+                    .onChange(async v => {
+                        this.plugin.settings.budgetWarningThreshold = v / 100;
+                        await this.plugin.saveSettings();
+                    }));
+
+            content.createDiv({ text: 'All plugins', cls: 'or-debug-label' });
+            this.renderBudgetFields(content, this.plugin.settings.globalBudget);
+
+            const pluginIds = new Set([
+                ...this.getConsumerIds(),
+                ...Object.keys(this.plugin.settings.pluginBudgets || {})
+            ]);
+
+            pluginIds.forEach(id => {
+                content.createDiv({ text: id, cls: 'or-debug-label' });
+                // Only stored once a field is set, so opening the tab changes nothing
+                const limits = this.plugin.settings.pluginBudgets[id] || {};
+                this.renderBudgetFields(content, limits, () => this.plugin.settings.pluginBudgets[id] = limits);
+            });
+        });
+
+        // ===== RESPONSE CACHE (Collapsible) =====
+        this.createCollapsibleSection(containerEl, 'Response Cache', 'database', false, (content) => {
+            content.createDiv({
+                text: 'Identical requests with temperature 0 or a fixed seed from enabled plugins are answered from disk. Cached streams replay token by token.',
+                cls: 'or-text-muted'
+            });
+
+            new Setting(content)
+                .setName('Cache lifetime (hours)')
+                .addText(t => t
+                    .setValue(String(this.plugin.settings.cacheTtlHours))
+                    .onChange(async v => {
+                        const n = parseFloat(v);
+                        if (!isNaN(n) && n > 0) {
+                            this.plugin.settings.cacheTtlHours = n;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+
+            new Setting(content)
+                .setName('Max cached responses')
+                .setDesc('Least recently used responses are removed beyond this limit')
+                .addText(t => t
+                    .setValue(String(this.plugin.settings.cacheMaxEntries))
+                    .onChange(async v => {
+                        const n = parseInt(v);
+                        if (!isNaN(n) && n > 0) {
+                            this.plugin.settings.cacheMaxEntries = n;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+
+            const stats = this.plugin.cache.getStats();
+            const lookups = stats.hits + stats.misses;
+            new Setting(content)
+                .setName('Statistics')
+                .setDesc(`${stats.entries} cached, ${stats.hits} hits, ${stats.misses} misses` +
+                    (lookups ? ` (${Math.round(stats.hits / lookups * 100)}% hit rate)` : ''))
+                .addButton(b => b
+                    .setButtonText('Clear Cache')
+                    .setWarning()
+                    .onClick(async () => {
+                        await this.plugin.cache.clear();
+                        new Notice('Response cache cleared');
+                        this.display();
+                    }));
+
+            this.getConsumerIds().forEach(id => {
+                new Setting(content)
+                    .setName(id)
+                    .addToggle(t => t
+                        .setValue(!!this.plugin.settings.cachePlugins[id])
+                        .onChange(async v => {
+                            if (v) this.plugin.settings.cachePlugins[id] = true;
+                            else delete this.plugin.settings.cachePlugins[id];
+                            await this.plugin.saveSettings();
+                        }));
             });
         });
 
@@ -122,6 +582,23 @@ export class OpenRouterSettingTab extends PluginSettingTab {
         this.createCollapsibleSection(containerEl, 'Debug Info', 'bug', false, (content) => {
             content.addClass('or-settings-debug');
 
+            new Setting(content)
+                .setName('Request inspector')
+                .setDesc('Recent requests from all plugins with bodies, timing and errors (API keys redacted)')
+                .addText(t => t
+                    .setPlaceholder('50')
+                    .setValue(String(this.plugin.settings.inspectorBufferSize))
+                    .onChange(async v => {
+                        const n = parseInt(v);
+                        if (!isNaN(n) && n > 0) {
+                            this.plugin.settings.inspectorBufferSize = n;
+                            await this.plugin.saveSettings();
+                        }
+                    }))
+                .addButton(b => b
+                    .setButtonText('Open Inspector')
+                    .onClick(() => this.plugin.openInspector()));
+
             const pluginModels = this.plugin.settings.pluginModels || {};
 
             content.createDiv({ text: 'Raw pluginModels:', cls: 'or-debug-label' });
@@ -138,6 +615,371 @@ export class OpenRouterSettingTab extends PluginSettingTab {
         });
     }
 
+    private renderBackend(container: HTMLElement, backend: BackendConfig): void {
+        const save = async () => {
+            await this.plugin.saveSettings();
+        };
+
+        container.createDiv({ text: `${backend.name} (${backend.prefix}/…)`, cls: 'or-debug-label' });
+
+        new Setting(container)
+            .setName('Name')
+            .addText(t => t.setValue(backend.name).onChange(async v => {
+                backend.name = v;
+                await save();
+            }))
+            .addToggle(t => t
+                .setTooltip('Enabled')
+                .setValue(backend.enabled)
+                .onChange(async v => {
+                    backend.enabled = v;
+                    await save();
+                }))
+            .addExtraButton(b => b
+                .setIcon('trash')
+                .setTooltip('Remove backend')
+                .onClick(async () => {
+                    this.plugin.settings.backends = this.plugin.settings.backends.filter(x => x.id !== backend.id);
+                    await save();
+                    this.display();
+                }));
+
+        new Setting(container)
+            .setName('Base URL')
+            .addText(t => t
+                .setPlaceholder('http://localhost:11434/v1')
+                .setValue(backend.baseUrl)
+                .onChange(async v => {
+                    backend.baseUrl = v.trim();
+                    await save();
+                }));
+
+        new Setting(container)
+            .setName('Model prefix')
+            .setDesc('Avoid OpenRouter provider names such as "openai", they would be routed here')
+            .addText(t => t
+                .setValue(backend.prefix)
+                .onChange(async v => {
+                    backend.prefix = v.trim().replace(/\/+$/, '');
+                    await save();
+                }));
+
+        new Setting(container)
+            .setName('API Key')
+            .setDesc('Optional')
+            .addText(t => t
+                .setValue(backend.apiKey || '')
+                .onChange(async v => {
+                    backend.apiKey = v || undefined;
+                    await save();
+                }));
+
+        const caps: { key: keyof BackendConfig['capabilities']; name: string }[] = [
+            { key: 'models', name: 'Lists models (/models)' },
+            { key: 'credits', name: 'Reports credits (/credits, /auth/key)' },
+            { key: 'usageAccounting', name: 'Accepts OpenRouter usage accounting' }
+        ];
+        caps.forEach(({ key, name }) => {
+            new Setting(container)
+                .setName(name)
+                .addToggle(t => t
+                    .setValue(backend.capabilities[key])
+                    .onChange(async v => {
+                        backend.capabilities[key] = v;
+                        await save();
+                    }));
+        });
+
+        if (backend.capabilities.credits) {
+            const balance = container.createDiv({ cls: 'or-settings-balance', text: 'Checking balance...' });
+            this.plugin.fetchBackendCredits(backend.id).then(c => {
+                balance.setText(c ? `Balance: $${c}` : 'Balance: Unknown');
+            });
+        }
+    }
+
+    private getConsumerIds(): string[] {
+        return this.plugin.getConsumers().map(c => c.record.id);
+    }
+
+    private renderFallbackList(container: HTMLElement, pluginId: string): void {
+        container.empty();
+        const fallbacks = this.plugin.getFallbacks(pluginId);
+
+        const save = async (updated: string[]) => {
+            await this.plugin.setFallbacks(pluginId, updated);
+            this.renderFallbackList(container, pluginId);
+        };
+
+        fallbacks.forEach((modelId, index) => {
+            const row = container.createDiv({ cls: 'or-settings-model-row' });
+            row.createSpan({ text: `${index + 1}. ${modelId}`, cls: 'or-settings-model-name' });
+
+            if (index > 0) {
+                const up = row.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Move up' } });
+                setIcon(up, 'arrow-up');
+                up.addEventListener('click', () => {
+                    const updated = [...fallbacks];
+                    [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+                    save(updated);
+                });
+            }
+
+            const remove = row.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Remove' } });
+            setIcon(remove, 'cross');
+            remove.addEventListener('click', () => save(fallbacks.filter(m => m !== modelId)));
+        });
+
+        const candidates = this.plugin.getFavorites().filter(m => !fallbacks.includes(m) && m !== this.plugin.getModel(pluginId));
+        if (candidates.length > 0) {
+            new Setting(container)
+                .setName('Add fallback')
+                .addDropdown(d => {
+                    d.addOption('', 'Choose a favorite...');
+                    candidates.forEach(m => d.addOption(m, m));
+                    d.onChange(v => {
+                        if (v) save([...fallbacks, v]);
+                    });
+                });
+        }
+    }
+
+    private renderPreset(container: HTMLElement, preset: ParameterPreset): void {
+        const save = async () => {
+            await this.plugin.saveSettings();
+        };
+        const parseNumber = (v: string): number | undefined => {
+            const value = parseFloat(v);
+            return isNaN(value) ? undefined : value;
+        };
+        const parseList = (v: string): string[] | undefined => {
+            const items = v.split(',').map(x => x.trim()).filter(x => x);
+            return items.length ? items : undefined;
+        };
+
+        const header = container.createDiv({ text: preset.name, cls: 'or-debug-label' });
+
+        new Setting(container)
+            .setName('Name')
+            .addText(t => t.setValue(preset.name).onChange(async v => {
+                preset.name = v || preset.id;
+                header.setText(preset.name);
+                await save();
+            }))
+            .addExtraButton(b => b
+                .setIcon('trash')
+                .setTooltip('Delete preset')
+                .onClick(async () => {
+                    this.plugin.settings.presets = this.plugin.settings.presets.filter(p => p.id !== preset.id);
+                    Object.keys(this.plugin.settings.pluginPresets).forEach(id => {
+                        if (this.plugin.settings.pluginPresets[id] === preset.id) delete this.plugin.settings.pluginPresets[id];
+                    });
+                    await save();
+                    this.display();
+                }));
+
+        const numberFields: { key: 'temperature' | 'top_p' | 'max_tokens'; name: string; placeholder: string }[] = [
+            { key: 'temperature', name: 'Temperature', placeholder: 'Model default (e.g. 0.7)' },
+            { key: 'top_p', name: 'Top P', placeholder: 'Model default' },
+            { key: 'max_tokens', name: 'Max tokens', placeholder: 'Model default' }
+        ];
+        numberFields.forEach(({ key, name, placeholder }) => {
+            new Setting(container)
+                .setName(name)
+                .addText(t => t
+                    .setPlaceholder(placeholder)
+                    .setValue(preset[key] !== undefined ? String(preset[key]) : '')
+                    .onChange(async v => {
+                        preset[key] = parseNumber(v);
+                        await save();
+                    }));
+        });
+
+        new Setting(container)
+            .setName('Stop sequences')
+            .setDesc('Comma separated')
+            .addText(t => t
+                .setValue((preset.stop || []).join(', '))
+                .onChange(async v => {
+                    preset.stop = parseList(v);
+                    await save();
+                }));
+
+        new Setting(container)
+            .setName('System prompt prefix')
+            .addTextArea(t => t
+                .setValue(preset.systemPrompt || '')
+                .onChange(async v => {
+                    preset.systemPrompt = v.trim() || undefined;
+                    await save();
+                }));
+
+        const routing = () => preset.provider || (preset.provider = {});
+
+        new Setting(container)
+            .setName('Provider order')
+            .setDesc('OpenRouter providers to try first, comma separated (e.g. Anthropic, Together)')
+            .addText(t => t
+                .setValue((preset.provider?.order || []).join(', '))
+                .onChange(async v => {
+                    routing().order = parseList(v);
+                    await save();
+                }));
+
+        new Setting(container)
+            .setName('Provider sorting')
+            .addDropdown(d => d
+                .addOption('', 'Default')
+                .addOption('price', 'Lowest price')
+                .addOption('throughput', 'Highest throughput')
+                .addOption('latency', 'Lowest latency')
+                .setValue(preset.provider?.sort || '')
+                .onChange(async v => {
+                    routing().sort = (v || undefined) as ProviderRouting['sort'];
+                    await save();
+                }))
+            .addToggle(t => t
+                .setTooltip('Allow other providers when the preferred ones fail')
+                .setValue(preset.provider?.allow_fallbacks !== false)
+                .onChange(async v => {
+                    routing().allow_fallbacks = v ? undefined : false;
+                    await save();
+                }));
+
+        new Setting(container)
+            .setName('Deny data collection')
+            .setDesc('Only use providers that do not store or train on prompts')
+            .addToggle(t => t
+                .setValue(preset.provider?.data_collection === 'deny')
+                .onChange(async v => {
+                    routing().data_collection = v ? 'deny' : undefined;
+                    await save();
+                }));
+    }
+
+    private renderReasoningFields(container: HTMLElement, pluginId: string): void {
+        const options = this.plugin.settings.pluginReasoning[pluginId] || {};
+        const save = async () => {
+            const hasValues = Object.keys(options).some(k => (options as any)[k] !== undefined);
+            if (hasValues) this.plugin.settings.pluginReasoning[pluginId] = options;
+            else delete this.plugin.settings.pluginReasoning[pluginId];
+            await this.plugin.saveSettings();
+        };
+
+        new Setting(container)
+            .setName('Effort')
+            .setDesc('Ignored when a token budget is set')
+            .addDropdown(d => d
+                .addOption('', 'Model default')
+                .addOption('low', 'Low')
+                .addOption('medium', 'Medium')
+                .addOption('high', 'High')
+                .setValue(options.effort || '')
+                .onChange(async v => {
+                    options.effort = (v || undefined) as ReasoningOptions['effort'];
+                    await save();
+                }));
+
+        new Setting(container)
+            .setName('Reasoning token budget')
+            .addText(t => t
+                .setPlaceholder('Model default')
+                .setValue(options.max_tokens ? String(options.max_tokens) : '')
+                .onChange(async v => {
+                    const value = parseInt(v);
+                    options.max_tokens = isNaN(value) || value <= 0 ? undefined : value;
+                    await save();
+                }));
+
+        new Setting(container)
+            .setName('Hide reasoning')
+            .setDesc('The model still reasons, but the reasoning is not returned')
+            .addToggle(t => t
+                .setValue(!!options.exclude)
+                .onChange(async v => {
+                    options.exclude = v || undefined;
+                    await save();
+                }));
+    }
+
+    private renderBudgetFields(container: HTMLElement, limits: BudgetLimits, store?: () => void): void {
+        const fields: { key: keyof BudgetLimits; name: string; placeholder: string }[] = [
+            { key: 'dailyCost', name: 'Daily limit ($)', placeholder: 'No limit' },
+            { key: 'monthlyCost', name: 'Monthly limit ($)', placeholder: 'No limit' },
+            { key: 'dailyRequests', name: 'Daily requests', placeholder: 'No limit' },
+            { key: 'monthlyRequests', name: 'Monthly requests', placeholder: 'No limit' }
+        ];
+
+        fields.forEach(({ key, name, placeholder }) => {
+            new Setting(container)
+                .setName(name)
+                .addText(t => t
+                    .setPlaceholder(placeholder)
+                    .setValue(limits[key] ? String(limits[key]) : '')
+                    .onChange(async v => {
+                        const value = parseFloat(v);
+                        limits[key] = isNaN(value) || value <= 0 ? null : value;
+                        if (store) store();
+                        await this.plugin.saveSettings();
+                    }));
+        });
+    }
+
+    private renderUsageTable(container: HTMLElement): void {
+        container.empty();
+        const rows = this.plugin.getUsageSummary(this.usageGroupBy, this.usagePeriod);
+        if (rows.length === 0) {
+            container.createDiv({ text: 'No requests recorded yet', cls: 'or-text-muted or-text-center' });
+            return;
+        }
+
+        const table = container.createEl('table', { cls: 'or-usage-table' });
+        const head = table.createEl('thead').createEl('tr');
+        [this.usagePeriod === 'day' ? 'Day' : 'Month', this.usageGroupBy === 'plugin' ? 'Plugin' : 'Model', 'Requests', 'Tokens (in / out)', 'Cost']
+            .forEach(h => head.createEl('th', { text: h }));
+
+        const body = table.createEl('tbody');
+        rows.forEach(r => {
+            const tr = body.createEl('tr');
+            tr.createEl('td', { text: r.period });
+            tr.createEl('td', { text: r.key });
+            tr.createEl('td', { text: String(r.requests) });
+            tr.createEl('td', { text: `${r.promptTokens} / ${r.completionTokens}` });
+            tr.createEl('td', { text: `$${r.cost.toFixed(4)}` });
+        });
+    }
+
+    private async exportUsage(format: 'csv' | 'json'): Promise<void> {
+        const data = format === 'csv' ? this.plugin.usage.toCSV() : this.plugin.usage.toJSON();
+        const path = `OpenRouter Usage ${dayKey(Date.now())}.${format}`;
+        try {
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            if (existing) await this.app.vault.adapter.write(path, data);
+            else await this.app.vault.create(path, data);
+            new Notice(`Usage exported to ${path}`);
+        } catch (e: any) {
+            console.error("Usage export failed", e);
+            new Notice("Export failed: " + e.message);
+        }
+    }
+
+    /** Re-renders when models or favorites change elsewhere (model picker, other plugins) */
+    private subscribe(): void {
+        if (this.unsubscribers.length > 0) return;
+        const refresh = debounce(() => {
+            if (this.containerEl.isShown()) this.display();
+        }, 300, true);
+        this.unsubscribers = [
+            this.plugin.events.on('model-changed', refresh),
+            this.plugin.events.on('favorites-changed', refresh)
+        ];
+    }
+
+    hide(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+    }
+
     private createSection(container: HTMLElement, title: string, icon: string, buildContent: (contentEl: HTMLElement) => void): void {
         const section = container.createDiv({ cls: 'ai-settings-section' });
         const header = section.createDiv({ cls: 'ai-settings-section-header' });
@@ -1,96 +1,263 @@
 import { setIcon } from "obsidian";
+import { ProviderEvents } from "./events";
+
+type RequestState = 'connecting' | 'thinking' | 'generating' | 'rate-limited';
+
+interface ActiveRequest {
+    id: number;
+    pluginId: string;
+    model: string;
+    state: RequestState;
+    startTime: number;
+    /** Set on the first token, speed is measured from here */
+    firstTokenTime: number;
+    tokens: number;
+    cancel: () => void;
+}
+
+const STATE_LABELS: Record<RequestState, { icon: string; text: string; spin: boolean }> = {
+    'connecting': { icon: 'loader', text: 'Connecting...', spin: true },
+    'thinking': { icon: 'brain-circuit', text: 'Thinking...', spin: true },
+    'generating': { icon: 'zap', text: 'Generating...', spin: false },
+    'rate-limited': { icon: 'hourglass', text: 'Rate limited', spin: false }
+};
 
 export class StatusBar {
     private item: HTMLElement;
-    private spinnerInterval: any;
-    private startTime: number = 0;
-    private tokenCount: number = 0;
+    private requests = new Map<number, ActiveRequest>();
+    private estimateCost: (model: string, completionTokens: number) => number;
+    private tickInterval: any = null;
+    private flashTimeout: any = null;
+    private queued: number = 0;
+    private queueEl: HTMLElement | null = null;
+    private popover: HTMLElement | null = null;
 
-    constructor(item: HTMLElement) {
+    constructor(item: HTMLElement, events: ProviderEvents, estimateCost: (model: string, completionTokens: number) => number) {
         this.item = item;
+        this.estimateCost = estimateCost;
+        this.item.addClass('mod-clickable');
+        this.item.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.togglePopover();
+        });
         this.reset();
+        this.subscribe(events);
+    }
+
+    private subscribe(events: ProviderEvents) {
+        events.on('request-start', (e) => {
+            this.requests.set(e.requestId, {
+                id: e.requestId,
+                pluginId: e.pluginId,
+                model: e.model,
+                state: e.reasoning ? 'thinking' : 'connecting',
+                startTime: Date.now(),
+                firstTokenTime: 0,
+                tokens: 0,
+                cancel: e.cancel
+            });
+            this.update();
+        });
+        events.on('token', (e) => {
+            const req = this.requests.get(e.requestId);
+            if (!req) return;
+            if (req.firstTokenTime === 0) req.firstTokenTime = Date.now();
+            req.tokens++;
+            req.model = e.model;
+            if (req.state !== 'generating') {
+                req.state = 'generating';
+                this.update();
+            }
+        });
+        events.on('reasoning', (e) => this.setState(e.requestId, 'thinking'));
+        events.on('retry', (e) => {
+            const req = this.requests.get(e.requestId);
+            if (!req) return;
+            req.model = e.nextModel;
+            // A 429 retry keeps showing the rate limit until the queue resumes
+            if (req.state !== 'rate-limited') this.setState(e.requestId, 'connecting');
+        });
+        events.on('rate-limited', (e) => this.setState(e.requestId, 'rate-limited'));
+        events.on('complete', (e) => this.finish(e.requestId, e.status === 'aborted' ? null : 'check', 'Done'));
+        events.on('error', (e) => this.finish(e.requestId, 'alert-triangle', 'Error', e.error?.message || String(e.error)));
     }
 
     reset() {
+        this.requests.clear();
+        this.stopTicker();
+        this.clearFlash();
+        this.closePopover();
         this.item.empty();
+        this.queueEl = null;
         this.item.style.display = 'none';
-        this.stopSpinner();
-        this.startTime = 0;
-        this.tokenCount = 0;
     }
 
-    setConnecting() {
-        this.item.style.display = 'inline-flex';
-        this.item.empty();
-        const icon = this.item.createSpan({ cls: 'status-bar-item-icon' });
-        setIcon(icon, 'rss');
-        this.item.createSpan({ text: ' Connecting...' });
+    /** Number of requests waiting in the scheduler, shown as a suffix */
+    setQueueDepth(queued: number) {
+        this.queued = queued;
+        if (this.queueEl) this.queueEl.setText(this.queueText());
     }
 
-    setThinking() {
-        this.item.style.display = 'inline-flex';
+    private setState(id: number, state: RequestState) {
+        const req = this.requests.get(id);
+        if (!req || req.state === state) return;
+        req.state = state;
+        this.update();
+    }
+
+    /** Removes a request; the last one to finish flashes its result */
+    private finish(id: number, icon: string | null, text: string, title: string = '') {
+        if (!this.requests.delete(id)) return;
+        if (this.requests.size > 0 || !icon) {
+            this.update();
+            return;
+        }
+
+        this.stopTicker();
+        this.renderPopover();
         this.item.empty();
-        const icon = this.item.createSpan({ cls: 'status-bar-item-icon' });
-        setIcon(icon, 'brain-circuit'); // Or similar
-        this.item.createSpan({ text: ' Thinking...' });
-        this.startSpinner();
+        this.queueEl = null;
+        const iconEl = this.item.createSpan({ cls: 'status-bar-item-icon' });
+        setIcon(iconEl, icon);
+        this.item.createSpan({ text: ` ${text}` });
+        this.item.title = title;
+
+        this.clearFlash();
+        this.flashTimeout = setTimeout(() => {
+            this.flashTimeout = null;
+            if (this.requests.size === 0) this.update();
+        }, icon === 'check' ? 3000 : 5000);
     }
 
-    setGenerating() {
-        if (this.startTime === 0) this.startTime = Date.now();
+    private update() {
+        if (this.requests.size > 0) {
+            this.clearFlash();
+            this.startTicker();
+        } else {
+            this.stopTicker();
+        }
+        this.render();
+        this.renderPopover();
+    }
 
-        this.item.style.display = 'inline-flex';
+    private render() {
+        if (this.flashTimeout) return;
         this.item.empty();
+        this.queueEl = null;
+
+        const active = Array.from(this.requests.values());
+        if (active.length === 0) {
+            this.item.style.display = 'none';
+            return;
+        }
+
+        // Most advanced state wins: generating > thinking > rate limited > connecting
+        const state: RequestState = (['generating', 'thinking', 'rate-limited', 'connecting'] as RequestState[])
+            .find(s => active.some(r => r.state === s)) || 'connecting';
+        const label = STATE_LABELS[state];
+        const speed = active.reduce((sum, r) => sum + this.calculateSpeed(r), 0);
+        const speedText = speed > 0 ? `${speed} t/s` : '';
 
-        // Dynamic spinner icon or text
+        this.item.style.display = 'inline-flex';
+        this.item.title = 'Click for active requests';
         const icon = this.item.createSpan({ cls: 'status-bar-item-icon' });
-        setIcon(icon, 'zap');
+        setIcon(icon, label.icon);
+        if (label.spin) icon.addClass('or-spinning');
 
-        const speed = this.calculateSpeed();
-        const speedText = speed > 0 ? ` (${speed} t/s)` : '';
-        this.item.createSpan({ text: ` Generating...${speedText}` });
+        const text = active.length === 1
+            ? ` ${label.text}${speedText ? ` (${speedText})` : ''}`
+            : ` ${active.length} running${speedText ? `, ${speedText}` : ''}`;
+        this.item.createSpan({ text });
+        this.queueEl = this.item.createSpan({ text: this.queueText(), cls: 'or-status-queue' });
     }
 
-    updateProgress(tokens: number) {
-        this.tokenCount += tokens;
-        this.setGenerating(); // Update speed text
+    private queueText(): string {
+        return this.queued > 0 ? ` · ${this.queued} queued` : '';
     }
 
-    setSuccess() {
-        this.stopSpinner();
-        this.item.empty();
-        const icon = this.item.createSpan({ cls: 'status-bar-item-icon' });
-        setIcon(icon, 'check');
-        this.item.createSpan({ text: ' Done' });
+    private calculateSpeed(req: ActiveRequest): number {
+        if (req.firstTokenTime === 0 || req.tokens === 0) return 0;
+        const elapsedSec = (Date.now() - req.firstTokenTime) / 1000;
+        return elapsedSec > 0 ? Math.round(req.tokens / elapsedSec) : 0;
+    }
+
+    // ==================== POPOVER ====================
 
-        setTimeout(() => this.reset(), 3000);
+    private togglePopover() {
+        if (this.popover) {
+            this.closePopover();
+            return;
+        }
+        this.popover = document.body.createDiv({ cls: 'or-status-popover' });
+        this.popover.addEventListener('click', (e) => e.stopPropagation());
+        document.addEventListener('click', this.onOutsideClick);
+        this.renderPopover();
     }
 
-    setError(msg: string) {
-        this.stopSpinner();
-        this.item.empty();
-        const icon = this.item.createSpan({ cls: 'status-bar-item-icon' });
-        setIcon(icon, 'alert-triangle');
-        this.item.createSpan({ text: ' Error' });
-        this.item.title = msg;
+    private onOutsideClick = () => this.closePopover();
 
-        setTimeout(() => this.reset(), 5000);
+    private closePopover() {
+        document.removeEventListener('click', this.onOutsideClick);
+        if (this.popover) this.popover.remove();
+        this.popover = null;
     }
 
-    private calculateSpeed(): number {
-        if (this.startTime === 0 || this.tokenCount === 0) return 0;
-        const elapsedSec = (Date.now() - this.startTime) / 1000;
-        return elapsedSec > 0 ? Math.round(this.tokenCount / elapsedSec) : 0;
+    private renderPopover() {
+        if (!this.popover) return;
+        const popover = this.popover;
+        popover.empty();
+
+        const rect = this.item.getBoundingClientRect();
+        popover.style.bottom = `${window.innerHeight - rect.top + 4}px`;
+        popover.style.right = `${Math.max(4, window.innerWidth - rect.right)}px`;
+
+        const active = Array.from(this.requests.values());
+        if (active.length === 0) {
+            popover.createDiv({ text: 'No active requests', cls: 'or-text-muted or-text-center' });
+            return;
+        }
+
+        active.forEach(req => {
+            const row = popover.createDiv({ cls: 'or-status-popover-row' });
+            const info = row.createDiv({ cls: 'or-status-popover-info' });
+            info.createDiv({ text: req.pluginId, cls: 'or-status-popover-plugin' });
+            info.createDiv({ text: req.model, cls: 'or-text-muted' });
+
+            const cost = this.estimateCost(req.model, req.tokens);
+            const elapsed = Math.round((Date.now() - req.startTime) / 1000);
+            info.createDiv({
+                text: `${STATE_LABELS[req.state].text} · ${elapsed}s · ${req.tokens} tokens` + (cost > 0 ? ` · $${cost.toFixed(4)}` : ''),
+                cls: 'or-text-muted'
+            });
+
+            const cancel = row.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Cancel request' } });
+            setIcon(cancel, 'x');
+            cancel.addEventListener('click', () => req.cancel());
+        });
     }
 
-    private startSpinner() {
-        // Optional: animate text or icon if needed
+    // ==================== TIMERS ====================
+
+    /** Refreshes elapsed time and speed while requests are running */
+    private startTicker() {
+        if (this.tickInterval) return;
+        this.tickInterval = setInterval(() => {
+            this.render();
+            this.renderPopover();
+        }, 1000);
+    }
+
+    private stopTicker() {
+        if (this.tickInterval) {
+            clearInterval(this.tickInterval);
+            this.tickInterval = null;
+        }
     }
 
-    private stopSpinner() {
-        if (this.spinnerInterval) {
-            clearInterval(this.spinnerInterval);
-            this.spinnerInterval = null;
+    private clearFlash() {
+        if (this.flashTimeout) {
+            clearTimeout(this.flashTimeout);
+            this.flashTimeout = null;
         }
     }
 }
@@ -1,26 +1,84 @@
 import { Notice } from "obsidian";
+import { TokenUsage } from "./usageLedger";
+import { ApiError, StreamError } from "./errors";
+import { ToolCall, ToolCallAccumulator } from "./tools";
+import { Transport, buildHeaders } from "./transport";
+import { ThinkTagSplitter, splitThinkTags } from "./thinkSplitter";
+
+/** How a stream ended when onComplete fires */
+export type StreamStatus = "completed" | "aborted";
+
+/** Everything known about a finished stream, passed to onComplete */
+export interface StreamResult {
+    status: StreamStatus;
+    text: string;
+    reasoning: string;
+    /** "stop", "length", "tool_calls", "content_filter"... null if the provider sent none */
+    finishReason: string | null;
+    usage: TokenUsage | null;
+    /** Dollars, when the provider reported it in usage */
+    cost: number | null;
+    /** Generation id (OpenRouter: look up with /generation?id=) */
+    id: string | null;
+    /** Model that actually answered */
+    model: string | null;
+}
+
+export function createStreamResult(status: StreamStatus, text: string = "", model: string | null = null): StreamResult {
+    return { status, text, reasoning: "", finishReason: null, usage: null, cost: null, id: null, model };
+}
 
 export class StreamManager {
     static async streamRequest(
+        transport: Transport,
         url: string,
         apiKey: string,
         requestBody: any,
         onToken: (token: string) => void,
         onError: (error: any) => void,
-        onComplete: (fullText: string) => void,
+        onComplete: (fullText: string, status: StreamStatus, result: StreamResult) => void,
         abortController: AbortController = new AbortController(),
-        onReasoning?: (reasoning: string) => void
+        onReasoning?: (reasoning: string) => void,
+        onUsage?: (usage: TokenUsage) => void,
+        onToolCall?: (call: ToolCall) => void
     ): Promise<void> {
+        const result = createStreamResult("completed");
+
+        const setUsage = (usage: TokenUsage) => {
+            result.usage = usage;
+            if (typeof usage.cost === "number") result.cost = usage.cost;
+            if (onUsage) onUsage(usage);
+        };
+
+        const emitReasoning = (reasoning: string) => {
+            result.reasoning += reasoning;
+            if (onReasoning) onReasoning(reasoning);
+        };
+
+        // Models that inline <think> blocks in the content (e.g. DeepSeek R1 distills)
+        const splitter = new ThinkTagSplitter();
+        const emitContent = (parts: { text: string; reasoning: string }) => {
+            if (parts.reasoning) emitReasoning(parts.reasoning);
+            if (parts.text) {
+                result.text += parts.text;
+                onToken(parts.text);
+            }
+        };
+
+        /** Error object in a 200 response body or SSE event */
+        const inBandError = (data: any): StreamError | null => {
+            const finishReason = data.choices?.[0]?.finish_reason;
+            if (!data.error && finishReason !== "error") return null;
+            const code = data.error?.code ?? null;
+            const message = data.error?.message || "Provider error during generation";
+            return new StreamError(`Stream Error${code !== null ? ` ${code}` : ""}: ${message}`, code, result.text, data.id || result.id);
+        };
 
         try {
-            const response = await fetch(url, {
+            const response = await transport.stream({
+                url,
                 method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": `Bearer ${apiKey}`,
-                    "HTTP-Referer": "https://obsidian.md",
-                    "X-Title": "Obsidian OpenRouter Provider"
-                },
+                headers: buildHeaders(apiKey, true),
                 body: JSON.stringify({ ...requestBody, stream: true }),
                 signal: abortController.signal
             });
@@ -33,7 +91,7 @@ export class StreamManager {
                 } catch (e) {
                     errorMsg += `: ${response.statusText}`;
                 }
-                throw new Error(errorMsg);
+                throw new ApiError(response.status, errorMsg, response.headers.get("retry-after"));
             }
 
             if (!response.body) throw new Error("No response body");
@@ -42,82 +100,131 @@ export class StreamManager {
             const contentType = response.headers.get("content-type") || "";
             if (contentType.includes("application/json")) {
                 const json = await response.json();
+                const error = inBandError(json);
+                if (error) throw error;
+
+                result.id = json.id || null;
+                result.model = json.model || null;
+                if (json.usage) setUsage(json.usage);
                 const choice = json.choices?.[0];
 
                 if (choice) {
-                    const content = choice.message?.content || "";
-                    const reasoning = choice.message?.reasoning || ""; // detailed-thinking field?
-
-                    // Emit reasoning if present
-                    if (reasoning && onReasoning) {
-                        onReasoning(reasoning);
-                    } else if (content.includes("<think>")) {
-                        // Attempt to extract think tag if in content
-                        const thinkMatch = content.match(/<think>([\s\S]*?)<\/think>/);
-                        if (thinkMatch && onReasoning) {
-                            onReasoning(thinkMatch[1]);
-                        }
-                    }
+                    result.finishReason = choice.finish_reason || null;
 
-                    if (content) {
-                        onToken(content); // Emit all at once
+                    if (onToolCall && Array.isArray(choice.message?.tool_calls)) {
+                        choice.message.tool_calls.forEach((call: ToolCall) => onToolCall(call));
                     }
-                    onComplete(content);
+
+                    if (choice.message?.reasoning) emitReasoning(choice.message.reasoning);
+                    emitContent(splitThinkTags(choice.message?.content || "")); // Emit all at once
+                    onComplete(result.text, "completed", result);
+                } else {
+                    // Without this the request would never settle
+                    onError(new Error("Response contained no choices"));
                 }
                 return;
             }
 
             const reader = response.body.getReader();
             const decoder = new TextDecoder("utf-8");
-            let fullText = "";
+            const toolCalls = new ToolCallAccumulator();
+            const emitToolCalls = () => {
+                if (onToolCall) toolCalls.flush().forEach(call => onToolCall(call));
+            };
             let buffer = "";
 
+            /** Handles one SSE line; returns an in-band error, if the event carried one */
+            const processLine = (line: string): StreamError | null => {
+                const trimmed = line.trim();
+                // Blank lines separate events, ":" lines are keep-alive comments
+                if (!trimmed || trimmed.startsWith(":") || !trimmed.startsWith("data:")) return null;
+
+                const payload = trimmed.slice(5).trim();
+                if (payload === "[DONE]") return null;
+
+                let data: any;
+                try {
+                    data = JSON.parse(payload);
+                } catch (e) {
+                    console.warn("Failed to parse SSE line:", line, e);
+                    return null;
+                }
+
+                if (data.id) result.id = data.id;
+                if (data.model) result.model = data.model;
+
+                const error = inBandError(data);
+                if (error) return error;
+
+                // Final chunk carries token usage (and cost on OpenRouter)
+                if (data.usage) setUsage(data.usage);
+
+                // Handle content delta
+                const choice = data.choices?.[0];
+                const delta = choice?.delta;
+                if (delta) {
+                    // Handle reasoning delta (DeepSeek R1/V3)
+                    if (delta.reasoning) emitReasoning(delta.reasoning);
+
+                    if (delta.content) emitContent(splitter.push(delta.content));
+
+                    // Tool call arguments arrive as fragments across chunks
+                    if (Array.isArray(delta.tool_calls)) {
+                        toolCalls.add(delta.tool_calls);
+                    }
+                }
+
+                if (choice?.finish_reason) {
+                    result.finishReason = choice.finish_reason;
+                    if (choice.finish_reason === "tool_calls") emitToolCalls();
+                }
+                return null;
+            };
+
             while (true) {
                 const { done, value } = await reader.read();
-                if (done) break;
+                if (done) {
+                    // Flush the decoder and a last line without a trailing newline
+                    buffer += decoder.decode();
+                    const error = buffer ? processLine(buffer) : null;
+                    if (error) throw error;
+                    break;
+                }
 
-                const chunk = decoder.decode(value, { stream: true });
-                buffer += chunk;
+                buffer += decoder.decode(value, { stream: true });
 
                 const lines = buffer.split("\n");
                 // Keep the last partial line in the buffer
                 buffer = lines.pop() || "";
 
                 for (const line of lines) {
-                    const trimmed = line.trim();
-                    if (!trimmed || trimmed === "data: [DONE]") continue;
-
-                    if (trimmed.startsWith("data: ")) {
-                        try {
-                            const data = JSON.parse(trimmed.slice(6));
-
-                            // Handle content delta
-                            const delta = data.choices?.[0]?.delta;
-                            if (delta) {
-                                if (delta.content) {
-                                    fullText += delta.content;
-                                    onToken(delta.content);
-                                }
-
-                                // Handle reasoning delta (DeepSeek R1/V3)
-                                if (delta.reasoning && onReasoning) {
-                                    onReasoning(delta.reasoning);
-                                }
-                            }
-
-                        } catch (e) {
-                            console.warn("Failed to parse SSE line:", line, e);
-                        }
+                    const error = processLine(line);
+                    if (error) {
+                        reader.cancel().catch(() => { });
+                        throw error;
                     }
                 }
             }
 
+            emitContent(splitter.flush());
+
+            // Some providers end the stream without a tool_calls finish_reason
+            emitToolCalls();
+
             // Final completion callback
-            onComplete(fullText);
+            onComplete(result.text, "completed", result);
 
         } catch (error: any) {
             if (error.name === 'AbortError') {
                 console.log('Stream aborted');
+                result.status = "aborted";
+                try {
+                    emitContent(splitter.flush());
+                    onComplete(result.text, "aborted", result);
+                } catch (e) {
+                    // Reported like any other failure instead of rejecting
+                    onError(e);
+                }
             } else {
                 console.error("Stream Error:", error);
                 onError(error);
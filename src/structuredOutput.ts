@@ -0,0 +1,139 @@
+/*
+ * STRUCTURED OUTPUT
+ * JSON extraction from model text (think blocks, code fences) and a small
+ * JSON-schema validator used for repair retries
+ */
+
+// ==================== TYPES ====================
+export type JsonSchema = {
+    type?: string | string[];
+    properties?: { [key: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: unknown[];
+    const?: unknown;
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    description?: string;
+    [key: string]: unknown;
+};
+
+// ==================== EXTRACTION ====================
+
+/** Strips <think> blocks and markdown code fences, then parses the first JSON value */
+export function extractJson(text: string): unknown {
+    let cleaned = text.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
+
+    const fence = cleaned.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fence) cleaned = fence[1].trim();
+
+    try {
+        return JSON.parse(cleaned);
+    } catch (e) {
+        // Fall back to the outermost object / array inside surrounding prose
+        const start = cleaned.search(/[{[]/);
+        const end = Math.max(cleaned.lastIndexOf("}"), cleaned.lastIndexOf("]"));
+        if (start >= 0 && end > start) return JSON.parse(cleaned.slice(start, end + 1));
+        throw e;
+    }
+}
+
+/** System prompt for models without native json_schema support */
+export function buildSchemaInstruction(schema: JsonSchema): string {
+    return "Respond with a single JSON value that matches this JSON schema. " +
+        "Output only the JSON, without code fences or explanations.\n\n" +
+        JSON.stringify(schema, null, 2);
+}
+
+// ==================== VALIDATION ====================
+
+/** Returns a list of human-readable errors, empty when the value matches */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = "$"): string[] {
+    const errors: string[] = [];
+
+    if (schema.anyOf || schema.oneOf) {
+        const options = (schema.anyOf || schema.oneOf) as JsonSchema[];
+        if (!options.some(s => validateSchema(value, s, path).length === 0)) {
+            errors.push(`${path}: does not match any allowed schema`);
+        }
+        return errors;
+    }
+
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+        errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+    }
+    if (schema.enum && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+    }
+
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(t => matchesType(value, t))) {
+            errors.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+            return errors;
+        }
+    }
+
+    if (typeof value === "string") {
+        if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+
+    if (typeof value === "number") {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: needs at least ${schema.minItems} items`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: allows at most ${schema.maxItems} items`);
+        if (schema.items) {
+            value.forEach((item, i) => errors.push(...validateSchema(item, schema.items as JsonSchema, `${path}[${i}]`)));
+        }
+    }
+
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+        const obj = value as { [key: string]: unknown };
+        const properties = schema.properties || {};
+
+        (schema.required || []).forEach(key => {
+            if (!(key in obj)) errors.push(`${path}.${key}: is required`);
+        });
+
+        Object.keys(obj).forEach(key => {
+            if (properties[key]) {
+                errors.push(...validateSchema(obj[key], properties[key], `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+                errors.push(...validateSchema(obj[key], schema.additionalProperties, `${path}.${key}`));
+            }
+        });
+    }
+
+    return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case "null": return value === null;
+        case "array": return Array.isArray(value);
+        case "object": return value !== null && typeof value === "object" && !Array.isArray(value);
+        case "integer": return typeof value === "number" && Math.floor(value) === value;
+        case "number": return typeof value === "number" && isFinite(value);
+        default: return typeof value === type;
+    }
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
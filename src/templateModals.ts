@@ -0,0 +1,86 @@
+/*
+ * TEMPLATE MODALS
+ * Template picker and the form asking for custom variables
+ */
+
+import { App, FuzzySuggestModal, Modal, Setting, TFile } from "obsidian";
+import { PromptTemplate, TemplateVariables } from "./templates";
+
+export class TemplatePickerModal extends FuzzySuggestModal<TFile> {
+    private files: TFile[];
+    private onChoose: (file: TFile) => void;
+
+    constructor(app: App, files: TFile[], onChoose: (file: TFile) => void) {
+        super(app);
+        this.files = files;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a prompt template...');
+    }
+
+    getItems(): TFile[] {
+        return this.files;
+    }
+
+    getItemText(file: TFile): string {
+        return file.path.replace(/\.md$/, '');
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
+
+export class TemplateVariablesModal extends Modal {
+    private template: PromptTemplate;
+    private names: string[];
+    private onSubmit: (vars: TemplateVariables) => void;
+    private values: TemplateVariables = {};
+
+    constructor(app: App, template: PromptTemplate, names: string[], onSubmit: (vars: TemplateVariables) => void) {
+        super(app);
+        this.template = template;
+        this.names = names;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: this.template.name });
+        if (this.template.description) {
+            contentEl.createDiv({ text: this.template.description, cls: 'or-text-muted' });
+        }
+
+        this.names.forEach((name, i) => {
+            this.values[name] = this.template.variables[name] || '';
+            new Setting(contentEl)
+                .setName(name)
+                .addTextArea(t => {
+                    t.setValue(this.values[name]).onChange(v => this.values[name] = v);
+                    if (i === 0) setTimeout(() => t.inputEl.focus(), 0);
+                    // Ctrl/Cmd+Enter runs from any field
+                    t.inputEl.addEventListener('keydown', (e) => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                            e.preventDefault();
+                            this.submit();
+                        }
+                    });
+                });
+        });
+
+        new Setting(contentEl)
+            .addButton(b => b
+                .setButtonText('Run')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private submit(): void {
+        this.close();
+        this.onSubmit(this.values);
+    }
+}
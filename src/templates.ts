@@ -0,0 +1,160 @@
+/*
+ * PROMPT TEMPLATES
+ * Prompts stored as markdown notes: frontmatter for model, parameters and
+ * variables, body with {{placeholders}}
+ */
+
+import { TFile, Vault, normalizePath, parseYaml } from "obsidian";
+import { ChatMessage } from "./main";
+import { TemplateError } from "./errors";
+
+// ==================== TYPES ====================
+/** Values substituted for {{name}}; selection, note and title are filled by the editor commands */
+export type TemplateVariables = { [name: string]: string };
+
+export interface PromptTemplate {
+    path: string;
+    name: string;
+    description?: string;
+    /** Overrides the model selected for the running plugin */
+    model?: string;
+    system?: string;
+    /** Sampling parameters copied into the request body */
+    parameters: { [key: string]: unknown };
+    /** Declared variables and their defaults (undefined = must be supplied) */
+    variables: { [name: string]: string | undefined };
+    body: string;
+}
+
+/** Consumer id the template commands run under (own model, preset and usage line) */
+export const TEMPLATES_CONSUMER_ID = "prompt-templates";
+
+/** Frontmatter keys passed through as request parameters */
+const PARAMETER_KEYS = ["temperature", "top_p", "top_k", "max_tokens", "stop", "frequency_penalty", "presence_penalty", "seed", "reasoning"];
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// ==================== PARSING ====================
+
+/** Splits a note into its frontmatter and body */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+    const match = content.match(FRONTMATTER);
+    if (!match) return { frontmatter: null, body: content };
+    return { frontmatter: match[1], body: content.slice(match[0].length) };
+}
+
+export function parseTemplate(path: string, content: string): PromptTemplate {
+    const { frontmatter, body } = splitFrontmatter(content);
+    let meta: any = {};
+    if (frontmatter !== null) {
+        try {
+            meta = parseYaml(frontmatter) || {};
+        } catch (e: any) {
+            throw new TemplateError(path, `Invalid frontmatter in ${path}: ${e?.message || e}`);
+        }
+    }
+
+    const parameters: { [key: string]: unknown } = {};
+    PARAMETER_KEYS.forEach(key => {
+        if (meta[key] !== undefined && meta[key] !== null) parameters[key] = meta[key];
+    });
+
+    // Either a list of names or a map of name → default
+    const variables: { [name: string]: string | undefined } = {};
+    if (Array.isArray(meta.variables)) {
+        meta.variables.forEach((name: unknown) => variables[String(name)] = undefined);
+    } else if (meta.variables && typeof meta.variables === "object") {
+        Object.keys(meta.variables).forEach(name => {
+            const value = meta.variables[name];
+            variables[name] = value === null || value === undefined ? undefined : String(value);
+        });
+    }
+
+    const name = path.split("/").pop() || path;
+    return {
+        path,
+        name: typeof meta.name === "string" ? meta.name : name.replace(/\.md$/, ""),
+        description: typeof meta.description === "string" ? meta.description : undefined,
+        model: typeof meta.model === "string" && meta.model ? meta.model : undefined,
+        system: typeof meta.system === "string" && meta.system ? meta.system : undefined,
+        parameters,
+        variables,
+        body: body.trim()
+    };
+}
+
+/** Names of all {{placeholders}} in the template, in order of appearance */
+export function templatePlaceholders(template: PromptTemplate): string[] {
+    const names: string[] = [];
+    [template.system || "", template.body].forEach(text => {
+        text.replace(PLACEHOLDER, (_match, name: string) => {
+            if (names.indexOf(name) < 0) names.push(name);
+            return "";
+        });
+    });
+    return names;
+}
+
+/** Placeholders with neither a passed value nor a default */
+export function missingVariables(template: PromptTemplate, vars: TemplateVariables): string[] {
+    return templatePlaceholders(template).filter(name => vars[name] === undefined && template.variables[name] === undefined);
+}
+
+/** Builds the chat messages; throws TemplateError if a placeholder has no value */
+export function renderTemplate(template: PromptTemplate, vars: TemplateVariables): ChatMessage[] {
+    const missing = missingVariables(template, vars);
+    if (missing.length > 0) {
+        throw new TemplateError(template.path, `Template "${template.name}" is missing: ${missing.join(", ")}`, missing);
+    }
+
+    const fill = (text: string) => text.replace(PLACEHOLDER, (_match, name: string) => {
+        const value = vars[name] !== undefined ? vars[name] : template.variables[name];
+        return value || "";
+    });
+
+    const messages: ChatMessage[] = [];
+    if (template.system) messages.push({ role: "system", content: fill(template.system) });
+    messages.push({ role: "user", content: fill(template.body) });
+    return messages;
+}
+
+// ==================== LIBRARY ====================
+
+/** Reads templates from the configured vault folder */
+export class TemplateLibrary {
+    private vault: Vault;
+    private getFolder: () => string;
+
+    constructor(vault: Vault, getFolder: () => string) {
+        this.vault = vault;
+        this.getFolder = getFolder;
+    }
+
+    /** Template notes in the folder and its subfolders, sorted by path */
+    list(): TFile[] {
+        const folder = normalizePath(this.getFolder() || "/");
+        const prefix = folder === "/" ? "" : `${folder}/`;
+        return this.vault.getMarkdownFiles()
+            .filter(f => f.path.startsWith(prefix))
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /** Loads a template by vault path; the .md extension and the folder prefix are optional */
+    async load(path: string): Promise<PromptTemplate> {
+        const file = this.resolve(path);
+        if (!file) throw new TemplateError(path, `Prompt template not found: ${path}`);
+        return parseTemplate(file.path, await this.vault.cachedRead(file));
+    }
+
+    private resolve(path: string): TFile | null {
+        const withExt = path.endsWith(".md") ? path : `${path}.md`;
+        const folder = normalizePath(this.getFolder() || "/");
+        const candidates = [withExt, folder === "/" ? withExt : `${folder}/${withExt}`];
+        for (const candidate of candidates) {
+            const file = this.vault.getAbstractFileByPath(normalizePath(candidate));
+            if (file instanceof TFile) return file;
+        }
+        return null;
+    }
+}
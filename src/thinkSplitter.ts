@@ -0,0 +1,86 @@
+/*
+ * THINK TAG SPLITTER
+ * Separates inline <think>…</think> reasoning from answer text in a
+ * stream, including tags split across chunks
+ */
+
+export interface SplitResult {
+    text: string;
+    reasoning: string;
+}
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+export class ThinkTagSplitter {
+    private inThink = false;
+    /** Possible start of a tag, held back until the next chunk */
+    private pending = "";
+    /** Drop the blank lines models put between </think> and the answer */
+    private trimLeading = false;
+
+    push(chunk: string): SplitResult {
+        const result: SplitResult = { text: "", reasoning: "" };
+        let input = this.pending + chunk;
+        this.pending = "";
+
+        while (input) {
+            const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+            const index = input.toLowerCase().indexOf(tag);
+
+            if (index >= 0) {
+                this.emit(result, input.slice(0, index));
+                input = input.slice(index + tag.length);
+                this.inThink = !this.inThink;
+                if (!this.inThink) this.trimLeading = true;
+                continue;
+            }
+
+            const keep = partialTagLength(input, tag);
+            this.emit(result, input.slice(0, input.length - keep));
+            this.pending = input.slice(input.length - keep);
+            break;
+        }
+
+        return result;
+    }
+
+    /** Emits whatever is still held back at the end of the stream */
+    flush(): SplitResult {
+        const result: SplitResult = { text: "", reasoning: "" };
+        this.emit(result, this.pending);
+        this.pending = "";
+        return result;
+    }
+
+    private emit(result: SplitResult, piece: string): void {
+        if (!piece) return;
+        if (this.inThink) {
+            result.reasoning += piece;
+            return;
+        }
+        if (this.trimLeading) {
+            piece = piece.replace(/^\s+/, "");
+            if (!piece) return;
+            this.trimLeading = false;
+        }
+        result.text += piece;
+    }
+}
+
+/** Splits a complete response, e.g. a non-streaming message */
+export function splitThinkTags(content: string): SplitResult {
+    const splitter = new ThinkTagSplitter();
+    const head = splitter.push(content);
+    const tail = splitter.flush();
+    return { text: head.text + tail.text, reasoning: head.reasoning + tail.reasoning };
+}
+
+/** Length of the longest suffix of `text` that is a prefix of `tag` */
+function partialTagLength(text: string, tag: string): number {
+    const lower = text.toLowerCase();
+    for (let n = Math.min(tag.length - 1, lower.length); n > 0; n--) {
+        if (tag.startsWith(lower.slice(-n))) return n;
+    }
+    return 0;
+}
@@ -0,0 +1,83 @@
+/*
+ * TOOL CALLING
+ * Types for tools / tool_choice, streamed tool-call accumulation
+ * and a helper that runs the tool loop against registered handlers
+ */
+
+// ==================== TYPES ====================
+export interface ToolDefinition {
+    type: "function";
+    function: {
+        name: string;
+        description?: string;
+        /** JSON schema of the arguments */
+        parameters?: Record<string, unknown>;
+    };
+}
+
+export type ToolChoice = "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+
+export interface ToolCall {
+    id: string;
+    type: "function";
+    function: {
+        name: string;
+        /** JSON-encoded arguments, exactly as produced by the model */
+        arguments: string;
+    };
+}
+
+/** Receives the parsed arguments; the return value is sent back as the tool result */
+export type ToolHandler = (args: any, call: ToolCall) => unknown | Promise<unknown>;
+
+export interface ToolLoopOptions {
+    /** Stop after this many model turns (default 8) */
+    maxIterations?: number;
+    /** Called after each tool has run, e.g. to show progress */
+    onToolResult?: (call: ToolCall, result: string) => void;
+}
+
+// ==================== STREAM ACCUMULATOR ====================
+
+/** Collects `delta.tool_calls` fragments (keyed by index) into complete calls */
+export class ToolCallAccumulator {
+    private calls: ToolCall[] = [];
+
+    add(fragments: any[]): void {
+        fragments.forEach((frag, i) => {
+            const index = typeof frag.index === "number" ? frag.index : i;
+            let call = this.calls[index];
+            if (!call) {
+                call = { id: "", type: "function", function: { name: "", arguments: "" } };
+                this.calls[index] = call;
+            }
+            if (frag.id) call.id = frag.id;
+            if (frag.function?.name) call.function.name += frag.function.name;
+            if (frag.function?.arguments) call.function.arguments += frag.function.arguments;
+        });
+    }
+
+    /** Returns the finished calls and resets, so each call is emitted once */
+    flush(): ToolCall[] {
+        const done = this.calls.filter(Boolean);
+        this.calls = [];
+        return done;
+    }
+}
+
+// ==================== HELPERS ====================
+
+/** Runs a single tool call and returns the string content for the `tool` message */
+export async function executeToolCall(call: ToolCall, handlers: { [name: string]: ToolHandler }): Promise<string> {
+    const handler = handlers[call.function.name];
+    if (!handler) return JSON.stringify({ error: `Unknown tool: ${call.function.name}` });
+
+    try {
+        const args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+        const result = await handler(args, call);
+        return typeof result === "string" ? result : JSON.stringify(result ?? null);
+    } catch (e: any) {
+        console.error("Tool call failed:", call.function.name, e);
+        return JSON.stringify({ error: e?.message || String(e) });
+    }
+}
@@ -0,0 +1,106 @@
+/*
+ * HTTP TRANSPORT
+ * Every request the provider makes (chat, credits, auth/key, models) goes
+ * through a Transport. The default uses Obsidian's requestUrl and fetch.
+ */
+
+import { requestUrl } from "obsidian";
+
+// ==================== TYPES ====================
+export interface TransportRequest {
+    url: string;
+    method: "GET" | "POST";
+    headers?: Record<string, string>;
+    body?: string;
+    signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+    status: number;
+    /** Header names are lower-case */
+    headers: Record<string, string>;
+    text: string;
+    /** Parsed body, null if it is not JSON */
+    json: any;
+}
+
+/** The subset of fetch's Response that the SSE reader uses */
+export interface StreamResponse {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: { get(name: string): string | null };
+    body: ReadableStream<Uint8Array> | null;
+    json(): Promise<any>;
+}
+
+export interface Transport {
+    /** One-shot request; never throws on HTTP error status */
+    request(req: TransportRequest): Promise<TransportResponse>;
+    /** Streaming request (SSE); rejects with an AbortError when the signal fires */
+    stream(req: TransportRequest): Promise<StreamResponse>;
+}
+
+// ==================== DEFAULT ====================
+
+export class ObsidianTransport implements Transport {
+    async request(req: TransportRequest): Promise<TransportResponse> {
+        const response = await requestUrl({
+            url: req.url,
+            method: req.method,
+            headers: req.headers,
+            body: req.body,
+            throw: false
+        });
+
+        const headers: Record<string, string> = {};
+        Object.keys(response.headers || {}).forEach(k => headers[k.toLowerCase()] = response.headers[k]);
+
+        return { status: response.status, headers, text: response.text, json: parseJson(response.text) };
+    }
+
+    stream(req: TransportRequest): Promise<StreamResponse> {
+        return fetch(req.url, {
+            method: req.method,
+            headers: req.headers,
+            body: req.body,
+            signal: req.signal
+        });
+    }
+}
+
+// ==================== HELPERS ====================
+
+/** Headers sent with every authenticated request */
+export function buildHeaders(apiKey: string, json: boolean = false): Record<string, string> {
+    const headers: Record<string, string> = {
+        "HTTP-Referer": "https://obsidian.md",
+        "X-Title": "Obsidian OpenRouter Provider"
+    };
+    // Local backends may run without a key
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    if (json) headers["Content-Type"] = "application/json";
+    return headers;
+}
+
+/** Rejects with an AbortError once the signal fires, for transports that cannot cancel */
+export function withAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            const error = new Error("Request cancelled");
+            error.name = "AbortError";
+            reject(error);
+        };
+        if (signal.aborted) return onAbort();
+        signal.addEventListener("abort", onAbort);
+        promise.then(resolve, reject).then(() => signal.removeEventListener("abort", onAbort));
+    });
+}
+
+export function parseJson(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        return null;
+    }
+}
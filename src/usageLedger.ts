@@ -0,0 +1,207 @@
+/*
+ * USAGE LEDGER
+ * Records every request (plugin, model, tokens, cost, latency, outcome)
+ * and aggregates totals per plugin / model by day or month
+ */
+
+import { DataAdapter, debounce } from "obsidian";
+import { ModelInfo } from "./main";
+
+// ==================== TYPES ====================
+export type UsageOutcome = "success" | "error" | "aborted";
+
+export interface TokenUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    cost?: number;
+}
+
+export interface UsageEntry {
+    timestamp: number;
+    pluginId: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    latencyMs: number;
+    outcome: UsageOutcome;
+    stream: boolean;
+}
+
+export type UsageGroupBy = "plugin" | "model";
+export type UsagePeriod = "day" | "month";
+
+export interface UsageSummaryRow {
+    period: string;
+    key: string;
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+}
+
+const MAX_ENTRIES = 20000;
+
+// ==================== LEDGER ====================
+
+export class UsageLedger {
+    private adapter: DataAdapter;
+    private path: string;
+    private entries: UsageEntry[] = [];
+    private pricing: { [modelId: string]: { prompt: number; completion: number } } = {};
+
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(adapter: DataAdapter, path: string) {
+        this.adapter = adapter;
+        this.path = path;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.adapter.read(this.path));
+                this.entries = Array.isArray(data?.entries) ? data.entries : [];
+            }
+        } catch (e) {
+            console.error("Failed to load usage ledger", e);
+            this.entries = [];
+        }
+    }
+
+    async save(): Promise<void> {
+        try {
+            await this.adapter.write(this.path, JSON.stringify({ entries: this.entries }));
+        } catch (e) {
+            console.error("Failed to save usage ledger", e);
+        }
+    }
+
+    record(entry: Omit<UsageEntry, "cost">, usage?: TokenUsage | null): UsageEntry {
+        const full: UsageEntry = {
+            ...entry,
+            cost: typeof usage?.cost === "number"
+                ? usage.cost
+                : this.calculateCost(entry.model, entry.promptTokens, entry.completionTokens)
+        };
+        this.entries.push(full);
+        if (this.entries.length > MAX_ENTRIES) {
+            this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+        }
+        this.requestSave();
+        return full;
+    }
+
+    getEntries(): UsageEntry[] {
+        return [...this.entries];
+    }
+
+    async clear(): Promise<void> {
+        this.entries = [];
+        await this.save();
+    }
+
+    // ==================== PRICING ====================
+
+    setPricing(models: ModelInfo[]): void {
+        models.forEach(m => {
+            if (!m.pricing) return;
+            this.pricing[m.id] = {
+                prompt: parseFloat(m.pricing.prompt) || 0,
+                completion: parseFloat(m.pricing.completion) || 0
+            };
+        });
+    }
+
+    calculateCost(model: string, promptTokens: number, completionTokens: number): number {
+        const price = this.pricing[model];
+        if (!price) return 0;
+        return promptTokens * price.prompt + completionTokens * price.completion;
+    }
+
+    // ==================== AGGREGATION ====================
+
+    summarize(groupBy: UsageGroupBy, period: UsagePeriod): UsageSummaryRow[] {
+        const rows = new Map<string, UsageSummaryRow>();
+
+        this.entries.forEach(e => {
+            const periodKey = period === "day" ? dayKey(e.timestamp) : monthKey(e.timestamp);
+            const key = groupBy === "plugin" ? e.pluginId : e.model;
+            const id = `${periodKey}|${key}`;
+
+            let row = rows.get(id);
+            if (!row) {
+                row = { period: periodKey, key, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+                rows.set(id, row);
+            }
+            row.requests++;
+            row.promptTokens += e.promptTokens;
+            row.completionTokens += e.completionTokens;
+            row.cost += e.cost;
+        });
+
+        return Array.from(rows.values()).sort((a, b) =>
+            b.period.localeCompare(a.period) || b.cost - a.cost || a.key.localeCompare(b.key));
+    }
+
+    /** Cost and request totals for the current day or month, optionally for one plugin */
+    getTotals(period: UsagePeriod, pluginId?: string): { cost: number; requests: number } {
+        const now = Date.now();
+        const key = period === "day" ? dayKey : monthKey;
+        const current = key(now);
+        let cost = 0;
+        let requests = 0;
+
+        this.entries.forEach(e => {
+            if (pluginId && e.pluginId !== pluginId) return;
+            if (key(e.timestamp) !== current) return;
+            cost += e.cost;
+            requests++;
+        });
+
+        return { cost, requests };
+    }
+
+    // ==================== EXPORT ====================
+
+    toJSON(): string {
+        return JSON.stringify(this.entries, null, 2);
+    }
+
+    toCSV(): string {
+        const header = ["timestamp", "pluginId", "model", "promptTokens", "completionTokens", "cost", "latencyMs", "outcome", "stream"];
+        const lines = this.entries.map(e => [
+            new Date(e.timestamp).toISOString(),
+            csvEscape(e.pluginId),
+            csvEscape(e.model),
+            e.promptTokens,
+            e.completionTokens,
+            e.cost.toFixed(6),
+            e.latencyMs,
+            e.outcome,
+            e.stream
+        ].join(","));
+        return [header.join(","), ...lines].join("\n");
+    }
+}
+
+// ==================== HELPERS ====================
+
+function pad(n: number): string {
+    return n < 10 ? `0${n}` : `${n}`;
+}
+
+export function dayKey(timestamp: number): string {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function monthKey(timestamp: number): string {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+}
+
+function csvEscape(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
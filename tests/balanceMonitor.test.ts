@@ -0,0 +1,52 @@
+/*
+ * BALANCE MONITOR
+ * Background polling of the default key's credits
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { BalanceMonitor } from "../src/balanceMonitor";
+import { ProviderEvents } from "../src/events";
+import { fakeElement } from "./obsidian";
+
+(globalThis as any).window = globalThis;
+
+let polls = 0;
+
+function createMonitor(balancePollMinutes: number): BalanceMonitor {
+    polls = 0;
+    return new BalanceMonitor(
+        fakeElement(),
+        new ProviderEvents(),
+        () => ({ balancePollMinutes, showBalanceInStatusBar: false, lowBalanceThreshold: 0 } as any),
+        async () => {
+            polls++;
+            return null;
+        },
+        () => "default"
+    );
+}
+
+describe("BalanceMonitor", () => {
+    let monitor: BalanceMonitor;
+
+    afterEach(() => monitor.stop());
+
+    it("polls on start when an interval is set", () => {
+        monitor = createMonitor(15);
+        monitor.start();
+        expect(polls).toBe(1);
+    });
+
+    it("does nothing on start when polling is off", () => {
+        monitor = createMonitor(0);
+        monitor.start();
+        expect(polls).toBe(0);
+        expect(monitor.schedule()).toBe(false);
+    });
+
+    it("reschedules without polling", () => {
+        monitor = createMonitor(15);
+        expect(monitor.schedule()).toBe(true);
+        expect(polls).toBe(0);
+    });
+});
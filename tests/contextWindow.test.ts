@@ -0,0 +1,50 @@
+/*
+ * CONTEXT WINDOW
+ * Pre-flight fitting of requests to the model's context length
+ */
+
+import { describe, expect, it } from "vitest";
+import { fitToContext } from "../src/contextWindow";
+import { ContextExceededError } from "../src/errors";
+import { chatRequests, loadProvider } from "./provider";
+import { MockTransport } from "../src/mockTransport";
+
+const LONG = "word ".repeat(400);
+
+describe("fitToContext", () => {
+    it("returns the body unchanged when it fits", () => {
+        const body = { model: "test/model", messages: [{ role: "user" as const, content: "Hi" }] };
+        expect(fitToContext(body, 1000, "error")).toBe(body);
+    });
+
+    it("adds middle-out to the consumer's transforms", () => {
+        const body = { model: "test/model", messages: [{ role: "user" as const, content: LONG }], transforms: ["custom"] };
+        expect(fitToContext(body, 100, "middle-out").transforms).toEqual(["custom", "middle-out"]);
+    });
+
+    it("does not add middle-out twice", () => {
+        const body = { model: "test/model", messages: [{ role: "user" as const, content: LONG }], transforms: ["middle-out"] };
+        expect(fitToContext(body, 100, "middle-out").transforms).toEqual(["middle-out"]);
+    });
+
+    it("throws ContextExceededError with the error strategy", () => {
+        const body = { model: "test/model", messages: [{ role: "user" as const, content: LONG }] };
+        expect(() => fitToContext(body, 100, "error")).toThrow(ContextExceededError);
+    });
+});
+
+describe("context check with fallbacks", () => {
+    it("measures against the smallest window in the chain", async () => {
+        const mock = new MockTransport();
+        const provider = await loadProvider(mock);
+        provider.settings.modelContextLengths = { "test/primary": 100000, "test/small": 100 };
+        await provider.setFallbacks("test-plugin", ["test/small"]);
+
+        await expect(provider.fetchWithRetry(
+            { model: "test/primary", messages: [{ role: "user", content: LONG }] }, 1, 1, { pluginId: "test-plugin", contextStrategy: "error" })
+        ).rejects.toMatchObject({ name: "ContextExceededError", model: "test/small" });
+        provider.unload();
+
+        expect(chatRequests(mock)).toHaveLength(0);
+    });
+});
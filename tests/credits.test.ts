@@ -0,0 +1,67 @@
+/*
+ * CREDITS
+ * Balance math from the /credits and /auth/key responses
+ */
+
+import { describe, expect, it } from "vitest";
+import { calculateCredits, parseCredits } from "../src/main";
+import { TransportResponse } from "../src/transport";
+
+function response(json: any, status: number = 200): TransportResponse {
+    return { status, headers: {}, text: JSON.stringify(json), json };
+}
+
+describe("parseCredits", () => {
+    it("uses the account balance when the key has no limit", () => {
+        const credits = parseCredits(
+            response({ data: { total_credits: 20, total_usage: 7.5 } }),
+            response({ data: { limit: null, usage: 3, is_free_tier: false } })
+        );
+
+        expect(credits.balance).toBe(12.5);
+        expect(credits.keyLimit).toBeNull();
+        expect(credits.keyRemaining).toBeNull();
+        expect(credits.available).toBe(12.5);
+    });
+
+    it("caps the available amount at the key's remaining limit", () => {
+        const credits = parseCredits(
+            response({ data: { total_credits: 20, total_usage: 5 } }),
+            response({ data: { limit: 4, usage: 1.5, is_free_tier: true } })
+        );
+
+        expect(credits.keyRemaining).toBe(2.5);
+        expect(credits.available).toBe(2.5);
+        expect(credits.isFreeTier).toBe(true);
+    });
+
+    it("never reports a negative balance", () => {
+        const credits = parseCredits(
+            response({ data: { total_credits: 5, total_usage: 6 } }),
+            response({ data: { limit: 1, usage: 2 } })
+        );
+
+        expect(credits.balance).toBe(0);
+        expect(credits.keyRemaining).toBe(0);
+        expect(credits.available).toBe(0);
+    });
+
+    it("treats failed responses as empty", () => {
+        const credits = parseCredits(
+            response({ error: { message: "Unauthorized" } }, 401),
+            response({ data: { limit: 10, usage: 0 } })
+        );
+
+        expect(credits.totalCredits).toBe(0);
+        expect(credits.available).toBe(0);
+    });
+});
+
+describe("calculateCredits", () => {
+    it("formats the available amount with two decimals", () => {
+        expect(calculateCredits(
+            response({ data: { total_credits: 10, total_usage: 3.3333 } }),
+            response({ data: { limit: null, usage: 0 } })
+        )).toBe("6.67");
+    });
+});
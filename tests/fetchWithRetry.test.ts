@@ -0,0 +1,99 @@
+/*
+ * FETCH WITH RETRY
+ * Rate-limit retries and model fallback of one-shot requests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import OpenRouterProvider from "../src/main";
+import { MockTransport } from "../src/mockTransport";
+import { ApiError, MissingApiKeyError } from "../src/errors";
+import { chatRequests, loadProvider } from "./provider";
+
+const PLUGIN_ID = "test-plugin";
+
+describe("fetchWithRetry", () => {
+    let mock: MockTransport;
+    let provider: OpenRouterProvider;
+
+    beforeEach(async () => {
+        mock = new MockTransport();
+        provider = await loadProvider(mock);
+    });
+
+    afterEach(() => {
+        provider.unload();
+    });
+
+    it("retries after a 429 and returns the next response", async () => {
+        mock.on("/chat/completions",
+            { status: 429, headers: { "Retry-After": "0.01" }, json: { error: { message: "Rate limited" } } },
+            { json: mock.completion("Hello", { model: "test/model" }) }
+        );
+        const rateLimited: number[] = [];
+        provider.events.on("rate-limited", e => rateLimited.push(e.waitMs));
+
+        const response = await provider.fetchWithRetry(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] }, 3, 1, { pluginId: PLUGIN_ID });
+
+        expect(response.status).toBe(200);
+        expect(response.json.choices[0].message.content).toBe("Hello");
+        expect(rateLimited).toEqual([10]);
+        expect(chatRequests(mock)).toHaveLength(2);
+    });
+
+    it("falls back to the next model after a 404", async () => {
+        await provider.setFallbacks(PLUGIN_ID, ["test/fallback"]);
+        mock.on(req => req.url.endsWith("/chat/completions") && JSON.parse(req.body as string).model === "test/primary",
+            { status: 404, json: { error: { message: "No endpoints found for test/primary" } } });
+        mock.on("/chat/completions", { json: mock.completion("From fallback") });
+
+        const response = await provider.fetchWithRetry(
+            { model: "test/primary", messages: [{ role: "user", content: "Hi" }] }, 1, 1, { pluginId: PLUGIN_ID });
+
+        expect(response.json.choices[0].message.content).toBe("From fallback");
+        expect(response.json.model).toBe("test/fallback");
+        expect(chatRequests(mock).map(body => body.model)).toEqual(["test/primary", "test/fallback"]);
+    });
+
+    it("throws the API error once retries are used up", async () => {
+        mock.on("/chat/completions", { status: 500, json: { error: { message: "Upstream failed" } } });
+        const errors: any[] = [];
+        provider.events.on("error", e => errors.push(e.error));
+
+        await expect(provider.fetchWithRetry(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] }, 2, 1)
+        ).rejects.toBeInstanceOf(ApiError);
+        expect(errors).toHaveLength(1);
+        expect(chatRequests(mock)).toHaveLength(2);
+    });
+
+    it("refuses to send without an API key", async () => {
+        provider.unload();
+        provider = await loadProvider(mock, {});
+
+        await expect(provider.fetchWithRetry(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] }, 3, 1)
+        ).rejects.toBeInstanceOf(MissingApiKeyError);
+        expect(chatRequests(mock)).toHaveLength(0);
+    });
+});
+
+describe("fetchWithRetry with exactModel", () => {
+    it("skips the plugin's fallbacks and preset", async () => {
+        const mock = new MockTransport();
+        const provider = await loadProvider(mock);
+        await provider.setFallbacks(PLUGIN_ID, ["test/fallback"]);
+        provider.settings.presets.push({ id: "hot", name: "Hot", temperature: 1.5 });
+        await provider.setPluginPreset(PLUGIN_ID, "hot");
+        mock.on("/chat/completions", { status: 404, json: { error: { message: "No endpoints found" } } });
+
+        await expect(provider.fetchWithRetry(
+            { model: "test/primary", messages: [{ role: "user", content: "Hi" }] }, 1, 1, { pluginId: PLUGIN_ID, exactModel: true })
+        ).rejects.toBeInstanceOf(ApiError);
+        provider.unload();
+
+        const bodies = chatRequests(mock);
+        expect(bodies.map(body => body.model)).toEqual(["test/primary"]);
+        expect(bodies[0].temperature).toBeUndefined();
+    });
+});
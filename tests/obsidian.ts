@@ -0,0 +1,176 @@
+/*
+ * OBSIDIAN STUB
+ * The obsidian package only ships type declarations, so tests alias it to
+ * this module. It covers what the provider touches while loading and sending
+ * requests; UI classes exist only so subclasses can be declared.
+ */
+
+export class Notice {
+    constructor(public message: string, public timeout?: number) { }
+    setMessage(message: string): this {
+        this.message = message;
+        return this;
+    }
+    hide(): void { }
+}
+
+export class Component {
+    private intervals: number[] = [];
+
+    load(): void { }
+    onload(): void { }
+    onunload(): void { }
+
+    unload(): void {
+        this.intervals.forEach(id => clearInterval(id));
+        this.intervals = [];
+        this.onunload();
+    }
+
+    registerInterval(id: number): number {
+        this.intervals.push(id);
+        return id;
+    }
+
+    registerEvent(): void { }
+    registerDomEvent(): void { }
+}
+
+export class Plugin extends Component {
+    app: any;
+    manifest: any;
+    /** Contents of data.json */
+    data: any = null;
+
+    constructor(app: any, manifest: any) {
+        super();
+        this.app = app;
+        this.manifest = manifest;
+    }
+
+    async loadData(): Promise<any> {
+        return this.data;
+    }
+
+    async saveData(data: any): Promise<void> {
+        this.data = JSON.parse(JSON.stringify(data));
+    }
+
+    addCommand(command: any): any {
+        return command;
+    }
+
+    addStatusBarItem(): HTMLElement {
+        return fakeElement();
+    }
+
+    addSettingTab(): void { }
+    registerView(): void { }
+    addRibbonIcon(): HTMLElement {
+        return fakeElement();
+    }
+}
+
+export class PluginSettingTab {
+    constructor(public app: any, public plugin: any) { }
+}
+
+export class Modal {
+    constructor(public app: any) { }
+    open(): void { }
+    close(): void { }
+}
+
+export class FuzzySuggestModal<T> extends Modal { }
+
+export class ItemView extends Component {
+    constructor(public leaf: any) {
+        super();
+    }
+}
+
+export class MarkdownView extends ItemView { }
+
+export class Setting {
+    constructor(public containerEl: any) { }
+}
+
+export class Scope {
+    constructor(public parent?: Scope) { }
+    register(): void { }
+    unregister(): void { }
+}
+
+export class TFile {
+    path = "";
+    basename = "";
+    extension = "";
+}
+
+export function debounce<T extends unknown[]>(cb: (...args: T) => any, timeout = 0, resetTimer = false) {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let pending: T | null = null;
+    const run = () => {
+        timer = null;
+        if (!pending) return;
+        const args = pending;
+        pending = null;
+        return cb(...args);
+    };
+    const debounced: any = (...args: T) => {
+        pending = args;
+        if (timer && resetTimer) clearTimeout(timer);
+        if (!timer || resetTimer) timer = setTimeout(run, timeout);
+        return debounced;
+    };
+    debounced.cancel = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        pending = null;
+        return debounced;
+    };
+    debounced.run = () => {
+        if (timer) clearTimeout(timer);
+        return run();
+    };
+    return debounced;
+}
+
+export function setIcon(): void { }
+
+export function normalizePath(path: string): string {
+    return path.replace(/\\/g, "/").replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    return Buffer.from(buffer).toString("base64");
+}
+
+export function parseYaml(): any {
+    throw new Error("parseYaml is not available in tests");
+}
+
+export async function requestUrl(): Promise<any> {
+    throw new Error("requestUrl is not available in tests, use a MockTransport");
+}
+
+/**
+ * Stand-in for Obsidian's extended HTMLElement: every method exists and
+ * returns the element again, assigned properties are kept
+ */
+export function fakeElement(): any {
+    const props: Record<string | symbol, any> = {
+        style: {},
+        then: undefined,
+        [Symbol.toPrimitive]: () => ""
+    };
+    const element: any = new Proxy(function () { }, {
+        get: (_target, key) => key in props ? props[key] : element,
+        set: (_target, key, value) => {
+            props[key] = value;
+            return true;
+        },
+        apply: () => element
+    });
+    return element;
+}
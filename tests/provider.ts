@@ -0,0 +1,52 @@
+/*
+ * TEST PROVIDER
+ * Loads the real plugin against an in-memory vault and a MockTransport
+ */
+
+import OpenRouterProvider from "../src/main";
+import { MockTransport } from "../src/mockTransport";
+import { fakeElement } from "./obsidian";
+
+// The plugin schedules its timers on window; the status bar listens on document
+(globalThis as any).window = globalThis;
+(globalThis as any).document = fakeElement();
+
+function memoryAdapter() {
+    const files = new Map<string, string>();
+    return {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => {
+            const data = files.get(path);
+            if (data === undefined) throw new Error(`No such file: ${path}`);
+            return data;
+        },
+        write: async (path: string, data: string) => {
+            files.set(path, data);
+        },
+        remove: async (path: string) => {
+            files.delete(path);
+        }
+    };
+}
+
+/** Loaded provider whose traffic goes to `mock`; account and catalog requests are answered */
+export async function loadProvider(mock: MockTransport = new MockTransport(), data: any = { apiKey: "sk-test" }): Promise<OpenRouterProvider> {
+    mock
+        .on("/models", { json: { data: [] } })
+        .on("/credits", { json: { data: { total_credits: 10, total_usage: 4 } } })
+        .on("/auth/key", { json: { data: { limit: null, usage: 0 } } });
+
+    const app = { vault: { adapter: memoryAdapter(), configDir: ".obsidian" }, workspace: {} };
+    const plugin = new OpenRouterProvider(app as any, { id: "openrouter-provider", dir: ".obsidian/plugins/openrouter-provider" } as any);
+    (plugin as any).data = data;
+    plugin.setTransport(mock);
+    await plugin.onload();
+    return plugin;
+}
+
+/** Chat completion requests received by the mock, with parsed bodies */
+export function chatRequests(mock: MockTransport): any[] {
+    return mock.requests
+        .filter(req => req.url.endsWith("/chat/completions"))
+        .map(req => JSON.parse(req.body as string));
+}
@@ -0,0 +1,39 @@
+/*
+ * REQUEST SCHEDULER
+ * Concurrency limit and cancellation of queued requests
+ */
+
+import { describe, expect, it } from "vitest";
+import { RequestScheduler } from "../src/scheduler";
+
+describe("RequestScheduler", () => {
+    it("queues requests beyond the concurrency limit", async () => {
+        const scheduler = new RequestScheduler(() => 1, () => { });
+        const release = await scheduler.acquire("a");
+        let started = false;
+        const second = scheduler.acquire("b").then(r => {
+            started = true;
+            return r;
+        });
+
+        await Promise.resolve();
+        expect(started).toBe(false);
+        expect(scheduler.getStats()).toMatchObject({ queued: 1, running: 1 });
+
+        release();
+        (await second)();
+        expect(started).toBe(true);
+        expect(scheduler.getStats()).toMatchObject({ queued: 0, running: 0 });
+    });
+
+    it("rejects queued requests with an AbortError on clear", async () => {
+        const scheduler = new RequestScheduler(() => 1, () => { });
+        await scheduler.acquire("a");
+        const queued = scheduler.acquire("b");
+
+        scheduler.clear();
+
+        await expect(queued).rejects.toMatchObject({ name: "AbortError" });
+        expect(scheduler.getStats().queued).toBe(0);
+    });
+});
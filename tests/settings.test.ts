@@ -0,0 +1,24 @@
+/*
+ * SETTINGS
+ * Every provider instance starts from its own copy of the defaults
+ */
+
+import { describe, expect, it } from "vitest";
+import { loadProvider } from "./provider";
+
+describe("loadSettings", () => {
+    it("does not share defaults between providers", async () => {
+        const first = await loadProvider();
+        await first.registerConsumer({ id: "leaky-plugin", name: "Leaky Plugin" });
+        await first.setFallbacks("leaky-plugin", ["test/fallback"]);
+        await first.setModel("leaky-plugin", "test/model");
+        first.unload();
+
+        const second = await loadProvider();
+        second.unload();
+
+        expect(second.getConsumers().map(c => c.record.id)).not.toContain("leaky-plugin");
+        expect(second.getFallbacks("leaky-plugin")).toEqual([]);
+        expect(second.settings.pluginModels).toEqual({});
+    });
+});
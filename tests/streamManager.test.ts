@@ -0,0 +1,82 @@
+/*
+ * STREAM MANAGER
+ * SSE parsing against scripted chunk sequences
+ */
+
+import { describe, expect, it } from "vitest";
+import { StreamManager, StreamResult, StreamStatus } from "../src/streamManager";
+import { MockTransport, MockReply } from "../src/mockTransport";
+import { StreamError } from "../src/errors";
+
+const URL = "https://openrouter.ai/api/v1/chat/completions";
+
+interface Collected {
+    tokens: string[];
+    completed: { text: string; status: StreamStatus; result: StreamResult } | null;
+    error: any;
+}
+
+async function collect(reply: MockReply): Promise<Collected> {
+    const mock = new MockTransport().on("/chat/completions", reply);
+    const collected: Collected = { tokens: [], completed: null, error: null };
+    await StreamManager.streamRequest(
+        mock,
+        URL,
+        "sk-test",
+        { model: "test/model", messages: [{ role: "user", content: "Hi" }] },
+        token => collected.tokens.push(token),
+        error => collected.error = error,
+        (text, status, result) => collected.completed = { text, status, result }
+    );
+    return collected;
+}
+
+describe("StreamManager", () => {
+    it("joins lines split across chunks", async () => {
+        const mock = new MockTransport();
+        const chunks = mock.split(mock.sse(["Hello", ", ", "world"]), 7);
+        const { tokens, completed, error } = await collect({ chunks });
+
+        expect(error).toBeNull();
+        expect(tokens).toEqual(["Hello", ", ", "world"]);
+        expect(completed?.text).toBe("Hello, world");
+        expect(completed?.status).toBe("completed");
+        expect(completed?.result.finishReason).toBe("stop");
+    });
+
+    it("ignores keep-alive comments", async () => {
+        const mock = new MockTransport();
+        const [first, ...rest] = mock.sse(["a", "b"]);
+        const chunks = [": OPENROUTER PROCESSING\n\n", first, ": OPENROUTER PROCESSING\n\n", ...rest];
+        const { tokens, completed, error } = await collect({ chunks });
+
+        expect(error).toBeNull();
+        expect(tokens).toEqual(["a", "b"]);
+        expect(completed?.text).toBe("ab");
+    });
+
+    it("reports an error event sent after the stream started", async () => {
+        const chunks = [
+            `data: ${JSON.stringify({ id: "gen-1", choices: [{ delta: { content: "Par" } }] })}\n\n`,
+            `data: ${JSON.stringify({ id: "gen-1", error: { code: 502, message: "Provider disconnected" }, choices: [{ delta: {}, finish_reason: "error" }] })}\n\n`,
+            `data: ${JSON.stringify({ choices: [{ delta: { content: "never" } }] })}\n\n`
+        ];
+        const { tokens, completed, error } = await collect({ chunks });
+
+        expect(completed).toBeNull();
+        expect(tokens).toEqual(["Par"]);
+        expect(error).toBeInstanceOf(StreamError);
+        expect(error.status).toBe(502);
+        expect(error.message).toContain("Provider disconnected");
+    });
+
+    it("reads usage and cost from the final chunk", async () => {
+        const mock = new MockTransport();
+        const usage = { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15, cost: 0.00042 };
+        const { completed } = await collect({ chunks: mock.sse(["One", " two"], { usage, model: "test/model" }) });
+
+        expect(completed?.result.usage).toEqual(usage);
+        expect(completed?.result.cost).toBe(0.00042);
+        expect(completed?.result.model).toBe("test/model");
+    });
+});
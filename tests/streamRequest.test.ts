@@ -0,0 +1,126 @@
+/*
+ * STREAM REQUEST
+ * How the provider settles streams for its consumers
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import OpenRouterProvider from "../src/main";
+import { MockTransport } from "../src/mockTransport";
+import { MissingApiKeyError } from "../src/errors";
+import { chatRequests, loadProvider } from "./provider";
+
+const PLUGIN_ID = "test-plugin";
+
+describe("streamRequest", () => {
+    let mock: MockTransport;
+    let provider: OpenRouterProvider;
+
+    beforeEach(async () => {
+        mock = new MockTransport();
+        provider = await loadProvider(mock);
+    });
+
+    afterEach(() => {
+        provider.unload();
+    });
+
+    it("keeps a completed stream completed when onComplete throws", async () => {
+        mock.on("/chat/completions", { chunks: mock.sse(["Hi", " there"]) });
+        const errors: any[] = [];
+        const events: string[] = [];
+        provider.events.on("complete", () => events.push("complete"));
+        provider.events.on("error", () => events.push("error"));
+
+        const handle = provider.streamRequest(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] },
+            () => { },
+            () => { throw new Error("consumer bug"); },
+            error => errors.push(error),
+            undefined,
+            { pluginId: PLUGIN_ID }
+        );
+        const outcome = await handle.done;
+
+        expect(outcome.status).toBe("completed");
+        expect(outcome.text).toBe("Hi there");
+        expect(errors).toEqual([]);
+        expect(events).toEqual(["complete"]);
+    });
+
+    it("settles a queued stream as aborted on unload", async () => {
+        mock.on("/chat/completions", { chunks: mock.sse(["never"]) });
+        provider.scheduler.rateLimited(60000);
+        const handle = provider.streamRequest(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] },
+            () => { },
+            () => { },
+            () => { }
+        );
+        await vi.waitFor(() => expect(provider.scheduler.getStats().queued).toBe(1));
+
+        provider.unload();
+
+        expect((await handle.done).status).toBe("aborted");
+    });
+
+    it("sends a stream again after the 429 pause", async () => {
+        mock.on("/chat/completions",
+            { status: 429, headers: { "Retry-After": "0.01" }, json: { error: { message: "Rate limited" } } },
+            { chunks: mock.sse(["After", " pause"]) }
+        );
+        const rateLimited: number[] = [];
+        const errors: any[] = [];
+        provider.events.on("rate-limited", e => rateLimited.push(e.waitMs));
+
+        const outcome = await provider.streamRequest(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] },
+            () => { },
+            () => { },
+            error => errors.push(error)
+        ).done;
+
+        expect(outcome.status).toBe("completed");
+        expect(outcome.text).toBe("After pause");
+        expect(rateLimited).toEqual([10]);
+        expect(errors).toEqual([]);
+        expect(chatRequests(mock)).toHaveLength(2);
+    });
+
+    it("keeps streaming when onToken throws", async () => {
+        mock.on("/chat/completions", { chunks: mock.sse(["a", "b", "c"]) });
+        const outcome = await provider.streamRequest(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] },
+            () => { throw new Error("consumer bug"); },
+            () => { },
+            () => { }
+        ).done;
+
+        expect(outcome.status).toBe("completed");
+        expect(outcome.text).toBe("abc");
+    });
+});
+
+describe("streamRequest without an API key", () => {
+    it("reports a MissingApiKeyError through onError and the error event", async () => {
+        const mock = new MockTransport();
+        const provider = await loadProvider(mock, {});
+        const errors: any[] = [];
+        const events: any[] = [];
+        provider.events.on("error", e => events.push(e.error));
+
+        const outcome = await provider.streamRequest(
+            { model: "test/model", messages: [{ role: "user", content: "Hi" }] },
+            () => { },
+            () => { },
+            error => errors.push(error)
+        ).done;
+        provider.unload();
+
+        expect(outcome.status).toBe("error");
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(MissingApiKeyError);
+        expect(events).toEqual(errors);
+        expect(provider.requestLog.list()[0].status).toBe("error");
+        expect(chatRequests(mock)).toHaveLength(0);
+    });
+});
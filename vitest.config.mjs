@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            // Only type declarations are published for obsidian
+            obsidian: fileURLToPath(new URL("./tests/obsidian.ts", import.meta.url))
+        }
+    },
+    test: {
+        include: ["tests/**/*.test.ts"],
+        environment: "node"
+    }
+});